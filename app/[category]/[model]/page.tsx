@@ -1,14 +1,25 @@
 import dynamic from "next/dynamic";
 import { notFound } from "next/navigation";
-import Link from "next/link";
-import RingViewer from "@/components/RingViewer";
+import ModelPageViewer from "@/components/ModelPageViewer";
+import type { StackOption } from "@/components/RingStackSelector";
+import type { ModelSwitcherOption } from "@/components/ModelSwitcher";
+import { getCategories, getModel, getModelByKey } from "@/lib/catalog";
+import { loadMetals } from "@/lib/metalConfig";
+import { getCommerceAdapter } from "@/lib/commerceAdapter";
+import type { CommerceAction } from "@/lib/commerce";
+import { getDisplayName } from "@/lib/modelMetadata";
+import { parseViewerConfig } from "@/lib/viewerConfig";
 
-export default function ModelViewerPage({
+export default async function ModelViewerPage({
   params,
+  searchParams,
 }: {
   params: { category: string; model: string };
+  searchParams: Record<string, string | string[] | undefined>;
 }) {
-  const { category, model } = params;
+  // The app router leaves route segments encoded
+  const category = decodeURIComponent(params.category);
+  const model = decodeURIComponent(params.model);
 
   // Both category and model must be provided or show a 404.
   if (!model || !category) {
@@ -17,55 +28,70 @@ export default function ModelViewerPage({
 
   // Use the model slug as is (avoid double .glb since RingViewer handles it)
   const selectedModel = model;
+  const ringModel = await getModel(category, model);
+  if (!ringModel) {
+    notFound();
+  }
+  const metals = await loadMetals();
+  let commerceAction: CommerceAction | undefined;
+  try {
+    commerceAction = getCommerceAdapter().action;
+  } catch (error) {
+    // A misconfigured shop hides the checkout button rather than the ring
+    console.error("Error setting up the commerce adapter", error);
+  }
+  const initialConfig = parseViewerConfig(searchParams);
+
+  // Rings stacked with this one; those no longer in the catalog are left out
+  const ringKey = `${category}/${model}`;
+  const stack = (await Promise.all(
+    (initialConfig.stack ?? []).map(async ({ model: entry }) => {
+      const key = entry.includes("/") ? entry : `${category}/${entry}`;
+      return (await getModelByKey(key)) ? key : null;
+    })
+  )).filter((key): key is string => key !== null);
+  const stackedModels = stack.includes(ringKey) ? stack : [ringKey, ...stack];
+
+  let stackOptions: StackOption[] = [];
+  let categoryModels: ModelSwitcherOption[] = [];
+  try {
+    const categories = await getCategories();
+    stackOptions = categories.flatMap((stackCategory) =>
+      stackCategory.models.map((stackModel) => ({
+        model: `${stackCategory.name}/${stackModel.slug}`,
+        name: getDisplayName(stackModel.slug, stackModel.metadata),
+      }))
+    );
+    categoryModels = (categories.find((candidate) => candidate.name === category)?.models ?? []).map((categoryModel) => ({
+      slug: categoryModel.slug,
+      name: getDisplayName(categoryModel.slug, categoryModel.metadata),
+      imageUrl: categoryModel.imageUrl ?? categoryModel.gifUrl,
+      metadata: categoryModel.metadata,
+      classificationOverrides: categoryModel.classificationOverrides,
+    }));
+  } catch (error) {
+    console.error("Error reading the catalog", error);
+  }
 
   return (
     <div className="min-h-screen" style={{ position: "relative" }}>
-      <RingViewer
-        models={[selectedModel]}
+      <ModelPageViewer
+        models={stackedModels}
         selectedModel={selectedModel}
         category={category}
+        metadata={ringModel.metadata}
+        initialConfig={initialConfig}
+        classificationOverrides={ringModel.classificationOverrides}
+        metals={metals}
+        stacked
+        stackOptions={stackOptions}
+        categoryModels={categoryModels}
+        commerceAction={commerceAction}
+        priceEstimates
+        leadCapture
+        imageExport
+        turntableExport
       />
-      <div style={{
-          position: "absolute",
-          top: "20px",
-          left: "20px",
-          zIndex: 20,
-          display: "grid",
-          gridTemplateColumns: "1fr",
-          gridTemplateRows: "auto auto",
-          gap: "10px",
-          width: "200px"
-        }}
-      >
-        <Link href="/" className="block">
-          <button className="w-full"
-            style={{
-              background: "#D4AF37",
-              color: "white",
-              border: "none",
-              borderRadius: "5px",
-              padding: "10px 20px",
-              cursor: "pointer"
-            }}
-          >
-            Back to Dashboard
-          </button>
-        </Link>
-        <Link href={`/${category}`} className="block">
-          <button className="w-full"
-            style={{
-              background: "#D4AF37",
-              color: "white",
-              border: "none",
-              borderRadius: "5px",
-              padding: "10px 20px",
-              cursor: "pointer"
-            }}
-          >
-            Back to {category}
-          </button>
-        </Link>
-      </div>
     </div>
   );
 } 
\ No newline at end of file
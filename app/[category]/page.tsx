@@ -1,16 +1,14 @@
-import { readdirSync, statSync } from "fs";
-import { join } from "path";
 import Link from "next/link";
 import HoverableDiv from "@/components/HoverableDiv";
+import { getCategory, type RingModel } from "@/lib/catalog";
+import { formatPriceRange, getDisplayName } from "@/lib/modelMetadata";
 
-export default function CategoryPage({ params }: { params: { category: string } }) {
-  const { category } = params;
-  let models: string[] = [];
+export default async function CategoryPage({ params }: { params: { category: string } }) {
+  // The app router leaves route segments encoded
+  const category = decodeURIComponent(params.category);
+  let models: RingModel[] = [];
   try {
-    const categoryPath = join(process.cwd(), "public", "3d", category);
-    if (statSync(categoryPath).isDirectory()) {
-      models = readdirSync(categoryPath).filter((file) => file.endsWith(".glb"));
-    }
+    models = (await getCategory(category))?.models ?? [];
   } catch (error) {
     console.error("Error reading models for category", category, error);
   }
@@ -47,23 +45,12 @@ export default function CategoryPage({ params }: { params: { category: string }
         margin: "0 auto",
       }}>
         {models.map((model, index) => {
-          const gifPath = `/gifs/${category}/${model.replace(".glb", ".gif")}`;
-          const modelSlug = model.replace(".glb", "");
-          
-          // Function to check if file exists (this runs on server)
-          const gifExists = (() => {
-            try {
-              const fullPath = join(process.cwd(), 'public', 'gifs', category, model.replace(".glb", ".gif"));
-              return statSync(fullPath).isFile();
-            } catch {
-              return false;
-            }
-          })();
-
-          const imageSrc = gifExists ? gifPath : "/ring-placeholder.gif";
+          const { metadata } = model;
+          const displayName = getDisplayName(model.slug, metadata);
+          const imageSrc = model.gifUrl ?? "/ring-placeholder.gif";
 
           return (
-            <Link key={index} href={`/${category}/${modelSlug}`}> 
+            <Link key={index} href={`/${encodeURIComponent(category)}/${encodeURIComponent(model.slug)}`}> 
               <HoverableDiv
                 style={{
                   backgroundColor: "#f5f0eb",
@@ -75,7 +62,7 @@ export default function CategoryPage({ params }: { params: { category: string }
               >
                 <img 
                   src={imageSrc}
-                  alt={model} 
+                  alt={displayName} 
                   style={{ 
                     width: "100%", 
                     height: "auto", 
@@ -93,8 +80,20 @@ export default function CategoryPage({ params }: { params: { category: string }
                   letterSpacing: "0.1em",
                   textTransform: "uppercase",
                 }}>
-                  {modelSlug.split("-").join(" ")}
+                  {displayName}
                 </p>
+                {metadata?.priceRange && (
+                  <p style={{
+                    margin: "4px 0 0",
+                    textAlign: "center",
+                    color: "#ab9580",
+                    fontSize: "1rem",
+                    fontWeight: "300",
+                    letterSpacing: "0.05em",
+                  }}>
+                    {formatPriceRange(metadata.priceRange)}
+                  </p>
+                )}
               </HoverableDiv>
             </Link>
           );
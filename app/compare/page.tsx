@@ -0,0 +1,58 @@
+import Link from "next/link";
+import RingComparison, { type ComparisonOption } from "@/components/RingComparison";
+import { getCategories, getModel, type RingModel } from "@/lib/catalog";
+import { parseComparedRings } from "@/lib/comparison";
+import { loadMetals } from "@/lib/metalConfig";
+import { getDisplayName } from "@/lib/modelMetadata";
+
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: Record<string, string | string[] | undefined>;
+}) {
+  let rings: RingModel[] = [];
+  let options: ComparisonOption[] = [];
+  try {
+    // Rings that are no longer in the catalog are left out
+    rings = (await Promise.all(
+      parseComparedRings(searchParams).map(({ category, slug }) => getModel(category, slug))
+    )).filter((ring): ring is RingModel => ring !== null);
+    options = (await getCategories()).flatMap((category) =>
+      category.models.map((model) => ({
+        category: category.name,
+        slug: model.slug,
+        name: getDisplayName(model.slug, model.metadata),
+      }))
+    );
+  } catch (error) {
+    console.error("Error reading models for comparison", error);
+  }
+  const metals = await loadMetals();
+
+  return (
+    <div className="page-container">
+      <div className="title-container">
+        <h1 className="title-text">
+          Compare Rings
+        </h1>
+      </div>
+      <div style={{ display: "flex", justifyContent: "center", marginBottom: "20px" }}>
+        <Link href="/">
+          <button
+            style={{
+              background: "#D4AF37",
+              color: "white",
+              border: "none",
+              borderRadius: "5px",
+              padding: "10px 20px",
+              cursor: "pointer"
+            }}
+          >
+            Back to Dashboard
+          </button>
+        </Link>
+      </div>
+      <RingComparison rings={rings} options={options} metals={metals} />
+    </div>
+  );
+}
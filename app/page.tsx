@@ -1,8 +1,7 @@
-import { readdirSync, statSync } from "fs";
-import { join } from "path";
 import Link from "next/link";
 import HoverableDiv from "@/components/HoverableDiv";
 import RandomRingButton from '@/components/RandomRingButton';
+import { getCategories } from "@/lib/catalog";
 
 // Preload HDR file so it's cached when the user selects a model
 export const metadata = {
@@ -15,26 +14,13 @@ export const metadata = {
   ],
 };
 
-export default function Home() {
-  let categorizedModels: Record<string, string[]> = {};
+export default async function Home() {
+  let availableCategories: string[] = [];
   try {
-    const baseDir = join(process.cwd(), "public", "3d");
-    const categories = readdirSync(baseDir);
-    categories.forEach((category) => {
-      const categoryPath = join(baseDir, category);
-      if (statSync(categoryPath).isDirectory()) {
-        const files = readdirSync(categoryPath).filter((file) =>
-          file.endsWith(".glb")
-        );
-        if (files.length > 0) {
-          categorizedModels[category] = files;
-        }
-      }
-    });
+    availableCategories = (await getCategories()).map((category) => category.name);
   } catch (error) {
     console.error("Error reading models directory", error);
   }
-  const availableCategories = Object.keys(categorizedModels);
 
   return (
     <div className="page-container">
@@ -0,0 +1,181 @@
+"use client";
+
+import React from 'react';
+import {
+  NODE_ROLES,
+  getOverridesFileName,
+  serializeClassificationOverrides,
+  type ClassificationOverrides,
+  type NodeRole
+} from '@/lib/classificationOverrides';
+import { GEM_ROLES, type GemRole } from '@/lib/gemRoles';
+
+interface ClassificationEditorProps {
+  modelSlug: string;
+  overrides: ClassificationOverrides;
+  // Node picked by clicking it in the viewer
+  selectedNode: string | null;
+  // Current center/side/accent role of every gem, including overridden ones
+  gemRoles: Record<string, GemRole>;
+  // null clears the override, so the node goes back to automatic classification
+  onChangeRole: (nodeName: string, role: NodeRole | null) => void;
+  onChangeGemRole: (nodeName: string, role: GemRole | null) => void;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<NodeRole, string> = {
+  gem: "Gem",
+  primary: "Primary",
+  accent: "Accent",
+  hidden: "Hidden"
+};
+
+const GEM_ROLE_LABELS: Record<GemRole, string> = {
+  center: "Center stone",
+  side: "Side stone",
+  accent: "Pavé"
+};
+
+const buttonStyle = (active: boolean): React.CSSProperties => ({
+  background: active ? "#0aa" : "#333",
+  color: "white",
+  border: "none",
+  borderRadius: "3px",
+  padding: "5px 8px",
+  cursor: "pointer"
+});
+
+/**
+ * Panel for pinning nodes to a role when the automatic classification gets them wrong
+ *
+ * Changes apply to the viewer immediately; "Export JSON" downloads the overrides
+ * file, which goes next to the model file to make them permanent.
+ */
+export default function ClassificationEditor({
+  modelSlug,
+  overrides,
+  selectedNode,
+  gemRoles,
+  onChangeRole,
+  onChangeGemRole,
+  onClose
+}: ClassificationEditorProps) {
+  const overriddenNodes = Object.entries(overrides.nodes);
+  const overriddenGems = Object.entries(overrides.gemRoles);
+  const selectedRole = selectedNode ? overrides.nodes[selectedNode] : undefined;
+  const selectedGemRole = selectedNode ? overrides.gemRoles[selectedNode] : undefined;
+  const isSelectedGem = selectedNode !== null && selectedNode in gemRoles;
+
+  const handleExport = () => {
+    const blob = new Blob([serializeClassificationOverrides(overrides)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getOverridesFileName(modelSlug);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{
+      position: "absolute",
+      bottom: "70px",
+      right: "10px",
+      width: "300px",
+      maxHeight: "50vh",
+      overflow: "auto",
+      background: "rgba(0, 0, 0, 0.85)",
+      color: "white",
+      padding: "15px",
+      borderRadius: "5px",
+      fontSize: "12px",
+      fontFamily: "monospace",
+      zIndex: 1000
+    }}>
+      <h3 style={{ margin: "0 0 10px 0", color: "#0ff" }}>Edit Classification</h3>
+
+      {selectedNode ? (
+        <div style={{ marginBottom: "10px" }}>
+          <strong>Selected:</strong> {selectedNode}
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "5px", marginTop: "5px" }}>
+            {NODE_ROLES.map(role => (
+              <button
+                key={role}
+                onClick={() => onChangeRole(selectedNode, role)}
+                style={buttonStyle(selectedRole === role)}
+              >
+                {ROLE_LABELS[role]}
+              </button>
+            ))}
+            <button
+              onClick={() => onChangeRole(selectedNode, null)}
+              style={buttonStyle(selectedRole === undefined)}
+            >
+              Auto
+            </button>
+          </div>
+          {isSelectedGem && (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "5px", marginTop: "5px" }}>
+              {GEM_ROLES.map(role => (
+                <button
+                  key={role}
+                  onClick={() => onChangeGemRole(selectedNode, role)}
+                  style={buttonStyle(selectedGemRole === role)}
+                >
+                  {GEM_ROLE_LABELS[role]}
+                </button>
+              ))}
+              <button
+                onClick={() => onChangeGemRole(selectedNode, null)}
+                style={buttonStyle(selectedGemRole === undefined)}
+              >
+                Auto
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p style={{ margin: "0 0 10px 0" }}>Click a part of the ring to select it.</p>
+      )}
+
+      <div style={{ marginBottom: "10px" }}>
+        <strong>Overrides ({overriddenNodes.length}):</strong>
+        {overriddenNodes.length > 0 ? (
+          <ul style={{ margin: "5px 0", paddingLeft: "15px" }}>
+            {overriddenNodes.map(([nodeName, role]) => (
+              <li key={nodeName}>{nodeName}: {ROLE_LABELS[role]}</li>
+            ))}
+          </ul>
+        ) : (
+          <p style={{ margin: "5px 0" }}>None</p>
+        )}
+      </div>
+
+      <div style={{ marginBottom: "10px" }}>
+        <strong>Stone roles ({overriddenGems.length}):</strong>
+        {overriddenGems.length > 0 ? (
+          <ul style={{ margin: "5px 0", paddingLeft: "15px" }}>
+            {overriddenGems.map(([nodeName, role]) => (
+              <li key={nodeName}>{nodeName}: {GEM_ROLE_LABELS[role]}</li>
+            ))}
+          </ul>
+        ) : (
+          <p style={{ margin: "5px 0" }}>None</p>
+        )}
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={overriddenNodes.length === 0 && overriddenGems.length === 0}
+        style={{ ...buttonStyle(false), marginRight: "10px" }}
+      >
+        Export JSON
+      </button>
+      <button onClick={onClose} style={buttonStyle(false)}>
+        Close
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useState } from 'react';
+import type { CommerceAction } from '@/lib/commerce';
+import type { ApiError, CheckoutRequest, CheckoutResponse } from '@/lib/apiV1';
+
+interface CommerceButtonProps {
+  action: CommerceAction;
+  category: string;
+  slug: string;
+  // Called on click so the shop gets the viewer state at that moment, in share link form
+  getConfig: () => string;
+  compact?: boolean;
+}
+
+type Status =
+  | { state: 'idle' }
+  | { state: 'sending' }
+  | { state: 'sent'; reference: string }
+  | { state: 'failed'; message: string };
+
+/**
+ * Sends the configured ring to the deployment's shop: adds it to the cart and
+ * opens the checkout, or requests a quote for it
+ */
+export default function CommerceButton({ action, category, slug, getConfig, compact = false }: CommerceButtonProps) {
+  const [status, setStatus] = useState<Status>({ state: 'idle' });
+
+  const handleClick = async () => {
+    setStatus({ state: 'sending' });
+    const request: CheckoutRequest = { category, slug, config: getConfig() };
+    try {
+      const response = await fetch('/api/v1/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const body = await response.json() as CheckoutResponse | ApiError;
+      if ('error' in body) {
+        setStatus({ state: 'failed', message: body.error.message });
+        return;
+      }
+      if (body.result.redirectUrl) {
+        window.location.assign(body.result.redirectUrl);
+        return;
+      }
+      setStatus({ state: 'sent', reference: body.result.reference });
+    } catch (error) {
+      console.error("Error sending ring to the shop:", error);
+      setStatus({ state: 'failed', message: "Couldn't reach the shop, please try again" });
+    }
+  };
+
+  const label = action === 'cart' ? "Add to cart" : "Request quote";
+
+  return (
+    <div style={{ marginTop: compact ? "6px" : "14px" }}>
+      <button
+        onClick={handleClick}
+        disabled={status.state === 'sending'}
+        style={{
+          width: "100%",
+          padding: compact ? "6px 8px" : "10px 0",
+          background: "#5c4a3a",
+          color: "#fff",
+          border: "none",
+          borderRadius: "8px",
+          fontSize: compact ? "11px" : "15px",
+          fontWeight: "bold",
+          cursor: status.state === 'sending' ? "wait" : "pointer",
+          opacity: status.state === 'sending' ? 0.7 : 1,
+          transition: "all 0.3s ease"
+        }}
+      >
+        {status.state === 'sending' ? "Sending…" : label}
+      </button>
+      {status.state === 'sent' && (
+        <p style={{ margin: "6px 0 0", fontSize: compact ? "10px" : "12px", color: "#5c4a3a" }}>
+          Quote requested. Your reference is {status.reference}.
+        </p>
+      )}
+      {status.state === 'failed' && (
+        <p style={{ margin: "6px 0 0", fontSize: compact ? "10px" : "12px", color: "#a33" }}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
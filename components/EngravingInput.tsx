@@ -0,0 +1,85 @@
+"use client";
+
+import React from 'react';
+import { ENGRAVING_FONTS, getEngravingFont, sanitizeEngravingText, type Engraving } from '@/lib/engraving';
+
+interface EngravingInputProps {
+  engraving: Engraving;
+  // Characters that fit inside the band at its current size
+  maxLength: number;
+  onChange: (engraving: Engraving) => void;
+  compact?: boolean;
+}
+
+/**
+ * Text field and font choice for the engraving inside the band
+ */
+export default function EngravingInput({
+  engraving,
+  maxLength,
+  onChange,
+  compact = false
+}: EngravingInputProps) {
+  const selectedFont = getEngravingFont(engraving.font).name;
+  // A smaller ring size can leave the text longer than what fits; the viewer cuts it off
+  const isTooLong = engraving.text.length > maxLength;
+
+  return (
+    <div style={{ marginTop: compact ? "8px" : "14px" }}>
+      {!compact && (
+        <h2
+          style={{
+            margin: "0 0 8px",
+            fontSize: "1.3em",
+            fontWeight: "600",
+            whiteSpace: "nowrap"
+          }}
+        >
+          Engraving
+        </h2>
+      )}
+
+      <input
+        type="text"
+        value={engraving.text}
+        maxLength={Math.max(maxLength, engraving.text.length)}
+        placeholder="Add engraving"
+        onChange={(event) => onChange({ ...engraving, text: sanitizeEngravingText(event.target.value, maxLength) })}
+        style={{
+          width: "100%",
+          boxSizing: "border-box",
+          padding: compact ? "3px 6px" : "6px 8px",
+          fontSize: compact ? "10px" : "13px",
+          border: "1px solid #ab9580",
+          borderRadius: "8px",
+          background: "#fff"
+        }}
+      />
+
+      <div style={{ display: "flex", alignItems: "center", gap: "6px", marginTop: "6px" }}>
+        <select
+          value={selectedFont}
+          onChange={(event) => onChange({ ...engraving, font: event.target.value })}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: compact ? "2px 4px" : "4px 6px",
+            fontSize: compact ? "10px" : "12px",
+            border: "1px solid #ab9580",
+            borderRadius: "8px",
+            background: "#fff"
+          }}
+        >
+          {ENGRAVING_FONTS.map((font) => (
+            <option key={font.name} value={font.name}>
+              {font.name}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: compact ? "10px" : "12px", color: isTooLong ? "#b00020" : "#5c4a3a" }}>
+          {engraving.text.length}/{maxLength}
+        </span>
+      </div>
+    </div>
+  );
+}
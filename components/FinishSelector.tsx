@@ -0,0 +1,63 @@
+"use client";
+
+import React from 'react';
+import type { MetalFinish } from '@/lib/finishes';
+
+interface FinishSelectorProps {
+  options: MetalFinish[];
+  selectedFinish: string;
+  onSelect: (finishName: string) => void;
+  compact?: boolean;
+}
+
+/**
+ * Surface finish choice for the band currently being edited
+ */
+export default function FinishSelector({
+  options,
+  selectedFinish,
+  onSelect,
+  compact = false
+}: FinishSelectorProps) {
+  return (
+    <div style={{ marginTop: compact ? "6px" : "4px" }}>
+      {!compact && (
+        <div style={{ fontSize: "12px", fontWeight: "bold", color: "#5c4a3a", marginBottom: "6px" }}>
+          Finish
+        </div>
+      )}
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: compact ? "4px" : "6px"
+        }}
+      >
+        {options.map((finish) => {
+          const isSelected = finish.name === selectedFinish;
+          return (
+            <button
+              key={finish.name}
+              onClick={() => onSelect(finish.name)}
+              style={{
+                flex: compact ? "0 0 auto" : "1 1 40%",
+                background: isSelected ? "#ab9580" : "transparent",
+                color: isSelected ? "#ffffff" : "#5c4a3a",
+                border: "1px solid #ab9580",
+                borderRadius: compact ? "14px" : "16px",
+                padding: compact ? "3px 6px" : "4px 8px",
+                fontSize: compact ? "10px" : "12px",
+                fontWeight: "bold",
+                cursor: "pointer",
+                transition: "all 0.2s ease",
+                whiteSpace: "nowrap"
+              }}
+            >
+              {finish.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
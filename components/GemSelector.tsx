@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState } from 'react';
+import { resolveGemMaterial, type GemMaterial, type GemSelection } from '@/lib/gems';
+import type { GemRole } from '@/lib/gemRoles';
+
+interface GemSelectorProps {
+  options: GemMaterial[];
+  // Stone roles the ring has; one tab per role when there are several
+  roles: GemRole[];
+  selections: Record<GemRole, GemSelection>;
+  onSelect: (role: GemRole, selection: GemSelection) => void;
+  compact?: boolean;
+}
+
+const ROLE_LABELS: Record<GemRole, string> = {
+  center: "Center",
+  side: "Side",
+  accent: "Pavé"
+};
+
+/**
+ * Lets the customer pick the gem type and color of each group of stones,
+ * laid out like the band color selector above it
+ */
+export default function GemSelector({
+  options,
+  roles,
+  selections,
+  onSelect,
+  compact = false
+}: GemSelectorProps) {
+  const [activeRole, setActiveRole] = useState<GemRole>(roles[0]);
+  const role = roles.includes(activeRole) ? activeRole : roles[0];
+  const selection = selections[role];
+  const material = resolveGemMaterial(selection);
+
+  return (
+    <div style={{ marginTop: compact ? "8px" : "14px" }}>
+      {compact ? (
+        <div style={{ color: '#8b7355', fontSize: '12px', fontWeight: 'bold', textAlign: 'center', marginBottom: '6px' }}>
+          {selection.type}
+        </div>
+      ) : (
+        <h2
+          style={{
+            margin: "0 0 8px",
+            fontSize: "1.3em",
+            fontWeight: "600",
+            whiteSpace: "nowrap"
+          }}
+        >
+          Stone
+        </h2>
+      )}
+
+      {roles.length > 1 && (
+        <div
+          style={{
+            display: "flex",
+            background: "#ab9580",
+            borderRadius: compact ? "14px" : "20px",
+            padding: compact ? "3px 6px" : "2px",
+            marginBottom: "8px"
+          }}
+        >
+          {roles.map((option) => (
+            <button
+              key={option}
+              onClick={() => setActiveRole(option)}
+              style={{
+                background: role === option ? "#ffffff" : "transparent",
+                color: role === option ? "#000000" : "#ffffff",
+                border: "none",
+                borderRadius: compact ? "14px" : "16px",
+                padding: compact ? "3px 6px" : "4px 10px",
+                fontSize: compact ? "10px" : "12px",
+                fontWeight: "bold",
+                cursor: "pointer",
+                transition: "all 0.2s ease",
+                flex: 1
+              }}
+            >
+              {ROLE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        style={{
+          display: compact ? "flex" : "grid",
+          gridTemplateColumns: "1fr 1fr",
+          flexWrap: "wrap",
+          gap: "6px"
+        }}
+      >
+        {options.map((gem) => {
+          const isSelected = gem.name === selection.type;
+          return (
+            <button
+              key={gem.name}
+              // Picking a gem type drops any custom color
+              onClick={() => onSelect(role, { type: gem.name })}
+              title={gem.name}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: compact ? "center" : "flex-start",
+                ...(compact
+                  ? { width: "24px", height: "24px", padding: 0 }
+                  : { padding: "6px 8px", fontSize: "12px" }
+                ),
+                background: isSelected ? "#ffffff" : "transparent",
+                color: "#000",
+                border: `2px solid ${isSelected ? "#ab9580" : "transparent"}`,
+                borderRadius: "8px",
+                cursor: "pointer",
+                transition: "all 0.3s ease"
+              }}
+            >
+              <div
+                style={{
+                  flexShrink: 0,
+                  width: compact ? "14px" : "12px",
+                  height: compact ? "14px" : "12px",
+                  transform: "rotate(45deg)",
+                  background: isSelected ? material.swatch : gem.swatch,
+                  border: "1px solid #8b7355",
+                  marginRight: compact ? 0 : "8px"
+                }}
+              />
+              {!compact && gem.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Custom tint on top of the selected gem type */}
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          marginTop: "8px",
+          fontSize: compact ? "10px" : "12px",
+          color: "#5c4a3a"
+        }}
+      >
+        <input
+          type="color"
+          value={material.color}
+          onChange={(event) => onSelect(role, { type: selection.type, color: event.target.value })}
+          style={{ width: "24px", height: "20px", padding: 0, border: "none", background: "none", cursor: "pointer" }}
+        />
+        Color
+        {selection.color && (
+          <button
+            onClick={() => onSelect(role, { type: selection.type })}
+            style={{
+              marginLeft: "auto",
+              background: "none",
+              border: "none",
+              color: "#8b7355",
+              fontSize: "inherit",
+              textDecoration: "underline",
+              cursor: "pointer"
+            }}
+          >
+            Reset
+          </button>
+        )}
+      </label>
+    </div>
+  );
+}
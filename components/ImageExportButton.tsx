@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  getExportSize,
+  IMAGE_FORMATS,
+  MAX_EXPORT_SIZE,
+  type ImageExportOptions,
+  type ImageFormat,
+} from '@/lib/imageExport';
+
+interface ImageExportButtonProps {
+  // Unset until the viewer is ready
+  exportImage: ((options: ImageExportOptions) => Promise<Blob>) | null;
+  // File name of the download, without size and extension
+  fileName: string;
+  // Width over height of the view on screen
+  getViewAspect: () => number;
+  compact?: boolean;
+}
+
+const SIZES = [
+  { label: "Full HD", longestSide: 1920 },
+  { label: "4K", longestSide: 3840 },
+  { label: "8K", longestSide: MAX_EXPORT_SIZE },
+];
+
+const SUPERSAMPLING: { label: string; value: NonNullable<ImageExportOptions['supersampling']> }[] = [
+  { label: "Standard", value: 1 },
+  { label: "High (2×)", value: 2 },
+  { label: "Best (4×)", value: 4 },
+];
+
+type Status =
+  | { state: 'idle'; message?: string }
+  | { state: 'exporting' };
+
+const fieldStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "10px",
+  fontSize: "12px",
+  fontWeight: "bold",
+  color: "#5c4a3a",
+};
+
+const selectStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  marginTop: "4px",
+  padding: "6px",
+  border: "1px solid #d8cfc4",
+  borderRadius: "6px",
+  fontSize: "14px",
+  color: "#333",
+  background: "#fff",
+};
+
+/**
+ * "Export image" button with a dialog for print-quality stills of the current
+ * view, rendered off-screen at the chosen size
+ */
+export default function ImageExportButton({ exportImage, fileName, getViewAspect, compact = false }: ImageExportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [longestSide, setLongestSide] = useState(SIZES[1].longestSide);
+  const [square, setSquare] = useState(false);
+  const [background, setBackground] = useState('transparent');
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [supersampling, setSupersampling] = useState<NonNullable<ImageExportOptions['supersampling']>>(2);
+  const [status, setStatus] = useState<Status>({ state: 'idle' });
+
+  const { width, height } = getExportSize(longestSide, square ? 1 : getViewAspect());
+  const transparent = background === 'transparent' && format !== 'jpeg';
+
+  const handleExport = async () => {
+    if (!exportImage) return;
+    setStatus({ state: 'exporting' });
+    // Lets "Exporting…" show before the renderer takes over the page
+    await new Promise(resolve => requestAnimationFrame(resolve));
+    try {
+      const blob = await exportImage({ width, height, format, background, supersampling });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}-${width}x${height}.${IMAGE_FORMATS[format].extension}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setStatus({ state: 'idle' });
+      setOpen(false);
+    } catch (error) {
+      console.error("Error exporting image:", error);
+      setStatus({ state: 'idle', message: "Couldn't export the image; try a smaller size or less supersampling" });
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={!exportImage}
+        style={{
+          width: "100%",
+          marginTop: compact ? "6px" : "10px",
+          padding: compact ? "6px 8px" : "8px 0",
+          background: "#fff",
+          color: "#5c4a3a",
+          border: "1px solid #ab9580",
+          borderRadius: "8px",
+          fontSize: compact ? "11px" : "13px",
+          cursor: exportImage ? "pointer" : "default",
+          opacity: exportImage ? 1 : 0.6,
+          transition: "all 0.3s ease"
+        }}
+      >
+        Export image
+      </button>
+
+      {open && (
+        <div
+          onClick={() => status.state !== 'exporting' && setOpen(false)}
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0, 0, 0, 0.4)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+        >
+          <div
+            role="dialog"
+            aria-label="Export image"
+            onClick={event => event.stopPropagation()}
+            style={{
+              width: "min(360px, calc(100vw - 32px))",
+              padding: "20px",
+              background: "#fff",
+              borderRadius: "12px",
+              boxShadow: "0 8px 32px rgba(0, 0, 0, 0.2)",
+            }}
+          >
+            <h3 style={{ margin: "0 0 12px", color: "#5c4a3a" }}>Export image</h3>
+
+            <label style={fieldStyle}>
+              Size
+              <select value={longestSide} onChange={event => setLongestSide(Number(event.target.value))} style={selectStyle}>
+                {SIZES.map(size => (
+                  <option key={size.longestSide} value={size.longestSide}>{size.label}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ ...fieldStyle, display: "flex", alignItems: "center", gap: "6px", fontWeight: "normal" }}>
+              <input type="checkbox" checked={square} onChange={event => setSquare(event.target.checked)} />
+              Square
+            </label>
+
+            <label style={fieldStyle}>
+              Background
+              <div style={{ display: "flex", gap: "6px", marginTop: "4px" }}>
+                <select
+                  value={background === 'transparent' ? 'transparent' : 'color'}
+                  onChange={event => setBackground(event.target.value === 'transparent' ? 'transparent' : '#ffffff')}
+                  style={{ ...selectStyle, marginTop: 0, flex: 1 }}
+                >
+                  <option value="transparent">Transparent</option>
+                  <option value="color">Solid color</option>
+                </select>
+                {background !== 'transparent' && (
+                  <input
+                    type="color"
+                    value={background}
+                    onChange={event => setBackground(event.target.value)}
+                    aria-label="Background color"
+                    style={{ width: "40px", height: "32px", padding: 0, border: "1px solid #d8cfc4", borderRadius: "6px" }}
+                  />
+                )}
+              </div>
+            </label>
+
+            <label style={fieldStyle}>
+              Format
+              <select value={format} onChange={event => setFormat(event.target.value as ImageFormat)} style={selectStyle}>
+                {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map(key => (
+                  <option key={key} value={key}>{IMAGE_FORMATS[key].name}</option>
+                ))}
+              </select>
+            </label>
+
+            <label style={fieldStyle}>
+              Quality
+              <select
+                value={supersampling}
+                onChange={event => setSupersampling(Number(event.target.value) as typeof supersampling)}
+                style={selectStyle}
+              >
+                {SUPERSAMPLING.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <p style={{ margin: "0 0 10px", fontSize: "12px", color: "#666" }}>
+              {width} × {height} px{transparent ? ", transparent" : ""}
+              {format === 'jpeg' && background === 'transparent' ? " (JPEG has a white background)" : ""}
+            </p>
+            {status.state === 'idle' && status.message && (
+              <p style={{ margin: "0 0 10px", fontSize: "12px", color: "#a33" }}>{status.message}</p>
+            )}
+
+            <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}>
+              <button
+                onClick={() => setOpen(false)}
+                disabled={status.state === 'exporting'}
+                style={{ padding: "8px 16px", background: "#f0f0f0", color: "#333", border: "none", borderRadius: "6px", cursor: "pointer" }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={status.state === 'exporting'}
+                style={{
+                  padding: "8px 16px",
+                  background: "#5c4a3a",
+                  color: "#fff",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: status.state === 'exporting' ? "wait" : "pointer",
+                  opacity: status.state === 'exporting' ? 0.7 : 1,
+                }}
+              >
+                {status.state === 'exporting' ? "Exporting…" : "Export"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
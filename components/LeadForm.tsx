@@ -0,0 +1,246 @@
+"use client";
+
+import React, { useState } from 'react';
+import { MAX_NOTES_LENGTH, parseLeadContact } from '@/lib/leads';
+import type { ApiError, LeadRequest, LeadResponse } from '@/lib/apiV1';
+
+interface LeadFormProps {
+  category: string;
+  slug: string;
+  // Called on send so sales get the viewer state at that moment, camera angle included
+  getConfig: () => string;
+  // The viewer's canvas, for a snapshot of what the customer is looking at
+  getCanvas: () => HTMLCanvasElement | null;
+  compact?: boolean;
+}
+
+type Status =
+  | { state: 'editing'; message?: string }
+  | { state: 'sending' }
+  | { state: 'sent'; reference: string };
+
+// Longest side of the snapshot sent with an enquiry
+const SNAPSHOT_SIZE = 1024;
+
+/**
+ * Copies the canvas into a JPEG no larger than SNAPSHOT_SIZE, which keeps
+ * requests small on high-density screens
+ */
+function captureSnapshot(canvas: HTMLCanvasElement | null): string | undefined {
+  if (!canvas || !canvas.width || !canvas.height) return undefined;
+  const scale = Math.min(1, SNAPSHOT_SIZE / Math.max(canvas.width, canvas.height));
+  const snapshot = document.createElement('canvas');
+  snapshot.width = Math.round(canvas.width * scale);
+  snapshot.height = Math.round(canvas.height * scale);
+  const context = snapshot.getContext('2d');
+  if (!context) return undefined;
+  // JPEG has no transparency, so match the viewer's white background
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, snapshot.width, snapshot.height);
+  context.drawImage(canvas, 0, 0, snapshot.width, snapshot.height);
+  try {
+    return snapshot.toDataURL('image/jpeg', 0.85);
+  } catch (error) {
+    console.error("Error capturing snapshot:", error);
+    return undefined;
+  }
+}
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  padding: "8px",
+  border: "1px solid #d8cfc4",
+  borderRadius: "6px",
+  fontSize: "14px",
+  fontFamily: "inherit",
+  color: "#333",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "10px",
+  fontSize: "12px",
+  fontWeight: "bold",
+  color: "#5c4a3a",
+};
+
+/**
+ * "Ask about this ring" button with a form that sends the customer's contact
+ * details to sales, together with the ring as configured and a snapshot of it
+ */
+export default function LeadForm({ category, slug, getConfig, getCanvas, compact = false }: LeadFormProps) {
+  const [open, setOpen] = useState(false);
+  const [fields, setFields] = useState({ name: '', email: '', phone: '', notes: '' });
+  const [status, setStatus] = useState<Status>({ state: 'editing' });
+
+  const setField = (field: keyof typeof fields) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setFields(prev => ({ ...prev, [field]: event.target.value }));
+
+  const close = () => {
+    setOpen(false);
+    if (status.state === 'sent') {
+      setFields(prev => ({ ...prev, notes: '' }));
+      setStatus({ state: 'editing' });
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const contact = parseLeadContact(fields);
+    if ('error' in contact) {
+      setStatus({ state: 'editing', message: contact.error });
+      return;
+    }
+
+    setStatus({ state: 'sending' });
+    const request: LeadRequest = {
+      category,
+      slug,
+      config: getConfig(),
+      contact,
+      snapshot: captureSnapshot(getCanvas()),
+    };
+    try {
+      const response = await fetch('/api/v1/leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const body = await response.json() as LeadResponse | ApiError;
+      if ('error' in body) {
+        setStatus({ state: 'editing', message: body.error.message });
+        return;
+      }
+      setStatus({ state: 'sent', reference: body.reference });
+    } catch (error) {
+      console.error("Error sending enquiry:", error);
+      setStatus({ state: 'editing', message: "Couldn't send your enquiry, please try again" });
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        style={{
+          width: "100%",
+          marginTop: compact ? "6px" : "10px",
+          padding: compact ? "6px 8px" : "10px 0",
+          background: "#fff",
+          color: "#5c4a3a",
+          border: "1px solid #5c4a3a",
+          borderRadius: "8px",
+          fontSize: compact ? "11px" : "15px",
+          fontWeight: "bold",
+          cursor: "pointer",
+          transition: "all 0.3s ease"
+        }}
+      >
+        Ask about this ring
+      </button>
+
+      {open && (
+        <div
+          onClick={close}
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0, 0, 0, 0.4)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+        >
+          <div
+            role="dialog"
+            aria-label="Ask about this ring"
+            onClick={event => event.stopPropagation()}
+            style={{
+              width: "min(420px, calc(100vw - 32px))",
+              maxHeight: "calc(100vh - 32px)",
+              overflowY: "auto",
+              padding: "20px",
+              background: "#fff",
+              borderRadius: "12px",
+              boxShadow: "0 8px 32px rgba(0, 0, 0, 0.2)",
+            }}
+          >
+            <h3 style={{ margin: "0 0 12px", color: "#5c4a3a" }}>Ask about this ring</h3>
+
+            {status.state === 'sent' ? (
+              <>
+                <p style={{ fontSize: "14px", color: "#333" }}>
+                  Thank you, we&apos;ll be in touch soon. Your reference is <strong>{status.reference}</strong>.
+                </p>
+                <button
+                  onClick={close}
+                  style={{ padding: "8px 16px", background: "#5c4a3a", color: "#fff", border: "none", borderRadius: "6px", cursor: "pointer" }}
+                >
+                  Close
+                </button>
+              </>
+            ) : (
+              <form onSubmit={handleSubmit} noValidate>
+                <p style={{ margin: "0 0 12px", fontSize: "12px", color: "#666" }}>
+                  We&apos;ll receive the ring exactly as you see it now, with your choices and a picture.
+                </p>
+                <label style={labelStyle}>
+                  Name
+                  <input value={fields.name} onChange={setField('name')} autoComplete="name" required style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                  Email
+                  <input type="email" value={fields.email} onChange={setField('email')} autoComplete="email" required style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                  Phone (optional)
+                  <input type="tel" value={fields.phone} onChange={setField('phone')} autoComplete="tel" style={inputStyle} />
+                </label>
+                <label style={labelStyle}>
+                  Notes (optional)
+                  <textarea
+                    value={fields.notes}
+                    onChange={setField('notes')}
+                    maxLength={MAX_NOTES_LENGTH}
+                    rows={4}
+                    style={{ ...inputStyle, resize: "vertical" }}
+                  />
+                </label>
+                {status.state === 'editing' && status.message && (
+                  <p style={{ margin: "0 0 10px", fontSize: "12px", color: "#a33" }}>{status.message}</p>
+                )}
+                <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}>
+                  <button
+                    type="button"
+                    onClick={close}
+                    style={{ padding: "8px 16px", background: "#f0f0f0", color: "#333", border: "none", borderRadius: "6px", cursor: "pointer" }}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={status.state === 'sending'}
+                    style={{
+                      padding: "8px 16px",
+                      background: "#5c4a3a",
+                      color: "#fff",
+                      border: "none",
+                      borderRadius: "6px",
+                      cursor: status.state === 'sending' ? "wait" : "pointer",
+                      opacity: status.state === 'sending' ? 0.7 : 1,
+                    }}
+                  >
+                    {status.state === 'sending' ? "Sending…" : "Send"}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
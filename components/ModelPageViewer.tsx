@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, type ComponentProps } from "react";
+import Link from "next/link";
+import RingViewer from "@/components/RingViewer";
+import { getCompareUrl } from "@/lib/comparison";
+
+const buttonStyle = {
+  background: "#D4AF37",
+  color: "white",
+  border: "none",
+  borderRadius: "5px",
+  padding: "10px 20px",
+  cursor: "pointer"
+};
+
+/**
+ * A model page's viewer with the page's buttons, whose links follow the viewer
+ * when it switches to another model of the category
+ */
+export default function ModelPageViewer(props: ComponentProps<typeof RingViewer>) {
+  const { category, selectedModel } = props;
+  const [model, setModel] = useState(selectedModel);
+
+  return (
+    <>
+      <RingViewer {...props} onModelSwitch={setModel} />
+      <div style={{
+          position: "absolute",
+          top: "20px",
+          left: "20px",
+          zIndex: 20,
+          display: "grid",
+          gridTemplateColumns: "1fr",
+          gridTemplateRows: "auto auto auto",
+          gap: "10px",
+          width: "200px"
+        }}
+      >
+        <Link href="/" className="block">
+          <button className="w-full" style={buttonStyle}>
+            Back to Dashboard
+          </button>
+        </Link>
+        <Link href={`/${encodeURIComponent(category)}`} className="block">
+          <button className="w-full" style={buttonStyle}>
+            Back to {category}
+          </button>
+        </Link>
+        <Link href={getCompareUrl([{ category, slug: model }])} className="block">
+          <button className="w-full" style={buttonStyle}>
+            Compare
+          </button>
+        </Link>
+      </div>
+    </>
+  );
+}
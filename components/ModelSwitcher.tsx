@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import type { ModelMetadata } from '@/lib/modelMetadata';
+import type { ClassificationOverrides } from '@/lib/classificationOverrides';
+
+export interface ModelSwitcherOption {
+  slug: string;
+  name: string;
+  // Thumbnail; the placeholder when the model has none
+  imageUrl: string | null;
+  metadata: ModelMetadata | null;
+  classificationOverrides: ClassificationOverrides | null;
+}
+
+interface ModelSwitcherProps {
+  options: ModelSwitcherOption[];
+  selectedModel: string;
+  onSelect: (slug: string) => void;
+  compact?: boolean;
+}
+
+const arrowButtonStyle: React.CSSProperties = {
+  flexShrink: 0,
+  width: "30px",
+  height: "30px",
+  background: "#ab9580",
+  border: "none",
+  color: "#fff",
+  borderRadius: "50%",
+  cursor: "pointer",
+  fontSize: "16px",
+  lineHeight: 1
+};
+
+/**
+ * Previous and next buttons with a strip of thumbnails of the other models in
+ * the category, for switching models without leaving the viewer
+ */
+export default function ModelSwitcher({
+  options,
+  selectedModel,
+  onSelect,
+  compact = false
+}: ModelSwitcherProps) {
+  const selectedRef = useRef<HTMLButtonElement>(null);
+  const index = options.findIndex((option) => option.slug === selectedModel);
+  const size = compact ? 40 : 56;
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest", inline: "center" });
+  }, [selectedModel]);
+
+  const selectRelative = (offset: number) => {
+    const next = options[(index + offset + options.length) % options.length];
+    if (next) onSelect(next.slug);
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: compact ? "4px" : "8px",
+        padding: compact ? "4px" : "6px 8px",
+        background: "#dcd1c7",
+        borderRadius: "12px",
+        maxWidth: "100%",
+        boxSizing: "border-box"
+      }}
+    >
+      <button onClick={() => selectRelative(-1)} aria-label="Previous model" style={arrowButtonStyle}>
+        ‹
+      </button>
+      <div
+        style={{
+          display: "flex",
+          gap: compact ? "4px" : "6px",
+          overflowX: "auto",
+          scrollbarWidth: "thin",
+          minWidth: 0
+        }}
+      >
+        {options.map((option) => {
+          const isSelected = option.slug === selectedModel;
+          return (
+            <button
+              key={option.slug}
+              ref={isSelected ? selectedRef : undefined}
+              onClick={() => onSelect(option.slug)}
+              title={option.name}
+              aria-label={option.name}
+              aria-current={isSelected}
+              style={{
+                flexShrink: 0,
+                width: `${size}px`,
+                height: `${size}px`,
+                padding: 0,
+                background: "#f5f0eb",
+                border: `2px solid ${isSelected ? "#5c4a3a" : "transparent"}`,
+                borderRadius: "8px",
+                overflow: "hidden",
+                cursor: "pointer"
+              }}
+            >
+              <img
+                src={option.imageUrl ?? "/ring-placeholder.gif"}
+                alt={option.name}
+                loading="lazy"
+                style={{ width: "100%", height: "100%", objectFit: "cover" }}
+              />
+            </button>
+          );
+        })}
+      </div>
+      <button onClick={() => selectRelative(1)} aria-label="Next model" style={arrowButtonStyle}>
+        ›
+      </button>
+    </div>
+  );
+}
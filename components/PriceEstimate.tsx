@@ -0,0 +1,54 @@
+"use client";
+
+import React from 'react';
+import type { PriceEstimate as Estimate } from '@/lib/pricing';
+import { formatPriceRange } from '@/lib/modelMetadata';
+
+interface PriceEstimateProps {
+  // null until the first estimate arrives, and for models without a price
+  estimate: Estimate | null;
+  // A newer estimate is on its way
+  loading: boolean;
+  compact?: boolean;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  formatPriceRange({ min: amount, max: amount, currency });
+
+/**
+ * Estimated price of the ring as configured, with what makes it up
+ */
+export default function PriceEstimate({ estimate, loading, compact = false }: PriceEstimateProps) {
+  if (!estimate) return null;
+
+  return (
+    <div
+      style={{
+        marginBottom: compact ? "6px" : "12px",
+        color: "#5c4a3a",
+        opacity: loading ? 0.6 : 1,
+        transition: "opacity 0.2s ease"
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: "8px" }}>
+        <span style={{ fontSize: compact ? "10px" : "12px", fontWeight: "bold" }}>Estimated price</span>
+        <span style={{ fontSize: compact ? "13px" : "1.2em", fontWeight: "600" }}>
+          {formatAmount(estimate.total, estimate.currency)}
+        </span>
+      </div>
+      {!compact && estimate.lines.length > 1 && (
+        <details style={{ marginTop: "4px", fontSize: "11px" }}>
+          <summary style={{ cursor: "pointer" }}>Price details</summary>
+          {estimate.lines.map((line, index) => (
+            <div key={index} style={{ display: "flex", justifyContent: "space-between", gap: "8px", marginTop: "2px" }}>
+              <span>{line.label}</span>
+              <span style={{ whiteSpace: "nowrap" }}>
+                {line.amount < 0 ? "−" : ""}{formatAmount(Math.abs(line.amount), estimate.currency)}
+              </span>
+            </div>
+          ))}
+        </details>
+      )}
+    </div>
+  );
+}
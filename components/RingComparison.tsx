@@ -0,0 +1,323 @@
+"use client";
+
+import React, { Suspense, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { Leva } from 'leva';
+import { RingEnvironment, RingModel, getDefaultGemSelections } from './RingViewer';
+import type { RingModel as CatalogModel } from '@/lib/catalog';
+import { DEFAULT_METAL, formatMetalName, getBandOptions, getDefaultBand, type Metal } from '@/lib/metals';
+import { MAX_COMPARED_RINGS, getCompareUrl, type ComparedRingRef } from '@/lib/comparison';
+import { formatPriceRange, getDisplayName, type ModelMetadata } from '@/lib/modelMetadata';
+import { serializeViewerConfig } from '@/lib/viewerConfig';
+
+export interface ComparisonOption extends ComparedRingRef {
+  name: string;
+}
+
+interface RingComparisonProps {
+  rings: CatalogModel[];
+  // Every model in the catalog, for adding rings
+  options: ComparisonOption[];
+  metals: Metal[];
+}
+
+/**
+ * Camera position shared by the viewports. The viewport being dragged writes
+ * it, the others copy it on their next frame.
+ */
+interface CameraSync {
+  position: THREE.Vector3;
+  source: number | null;
+  version: number;
+}
+
+const CAMERA_POSITION: [number, number, number] = [22, 40, 23];
+
+function SyncedOrbitControls({ index, sync }: { index: number; sync: CameraSync }) {
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const camera = useThree((state) => state.camera);
+  const seenVersion = useRef(0);
+
+  useFrame(() => {
+    if (sync.source === index || sync.version === seenVersion.current) return;
+    seenVersion.current = sync.version;
+    camera.position.copy(sync.position);
+    controlsRef.current?.update();
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      enablePan={false}
+      minDistance={15}
+      maxDistance={50}
+      onStart={() => {
+        sync.source = index;
+      }}
+      onChange={() => {
+        // Updates copied from another viewport also fire this
+        if (sync.source !== index) return;
+        sync.position.copy(camera.position);
+        sync.version++;
+      }}
+    />
+  );
+}
+
+function describeGems(metadata: ModelMetadata | null): string {
+  if (!metadata?.gems?.length) return "—";
+  return metadata.gems
+    .map((gem) => [
+      gem.count && gem.count > 1 ? `${gem.count} ×` : null,
+      gem.shape,
+      gem.type,
+      gem.carat ? `${gem.carat} ct` : null,
+    ].filter(Boolean).join(" "))
+    .join(", ");
+}
+
+// Rows of the metadata table, one cell per ring
+const TABLE_ROWS: { label: string; value: (ring: CatalogModel, metals: Metal[]) => string }[] = [
+  { label: "Category", value: (ring) => ring.category },
+  { label: "Metals", value: (ring, metals) => getBandOptions(metals, ring.metadata).map(formatMetalName).join(", ") },
+  { label: "Stones", value: (ring) => describeGems(ring.metadata) },
+  { label: "Price", value: (ring) => ring.metadata?.priceRange ? formatPriceRange(ring.metadata.priceRange) : "—" },
+  { label: "Description", value: (ring) => ring.metadata?.description ?? "—" },
+  { label: "Tags", value: (ring) => ring.metadata?.tags?.join(", ") || "—" },
+];
+
+function ComparedRingView({
+  ring,
+  index,
+  sync,
+  metals,
+  selectedMetal,
+  onSelectMetal,
+  onRemove
+}: {
+  ring: CatalogModel;
+  index: number;
+  sync: CameraSync;
+  metals: Metal[];
+  selectedMetal: string;
+  onSelectMetal: (metalName: string) => void;
+  onRemove: () => void;
+}) {
+  const bandOptions = useMemo(() => getBandOptions(metals, ring.metadata), [metals, ring.metadata]);
+  const accentMetal = useMemo(() => getDefaultBand(bandOptions, "White Gold"), [bandOptions]);
+  const gemSelections = useMemo(() => getDefaultGemSelections(undefined, ring.metadata), [ring.metadata]);
+  const name = getDisplayName(ring.slug, ring.metadata);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", minWidth: 0 }}>
+      <div style={{ position: "relative", height: "min(50vh, 420px)", background: "#ffffff", borderRadius: "10px", overflow: "hidden" }}>
+        <Canvas
+          dpr={[1, 2]}
+          camera={{ position: sync.version > 0 ? sync.position.toArray() : CAMERA_POSITION, fov: 50 }}
+          style={{ background: "white" }}
+        >
+          <Suspense fallback={null}>
+            <RingEnvironment />
+            <RingModel
+              modelPath={ring.assetUrl}
+              metals={metals}
+              selectedBandColor={selectedMetal}
+              selectedAccentBandColor={accentMetal}
+              gemSelections={gemSelections}
+              classificationOverrides={ring.classificationOverrides}
+            />
+          </Suspense>
+          <SyncedOrbitControls index={index} sync={sync} />
+        </Canvas>
+        <button
+          onClick={onRemove}
+          aria-label={`Remove ${name}`}
+          style={{
+            position: "absolute",
+            top: "8px",
+            right: "8px",
+            width: "28px",
+            height: "28px",
+            border: "none",
+            borderRadius: "50%",
+            background: "#ab9580",
+            color: "#ffffff",
+            cursor: "pointer"
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      <Link
+        href={`/${ring.category}/${ring.slug}?${serializeViewerConfig({ metal: selectedMetal })}`}
+        style={{
+          margin: "10px 0 6px",
+          color: "#8b7355",
+          fontSize: "1.1rem",
+          letterSpacing: "0.05em",
+          textTransform: "uppercase",
+          textAlign: "center",
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+          whiteSpace: "nowrap"
+        }}
+      >
+        {name}
+      </Link>
+
+      <div style={{ display: "flex", flexWrap: "wrap", justifyContent: "center", gap: "6px" }}>
+        {bandOptions.map((metal) => (
+          <button
+            key={metal.name}
+            onClick={() => onSelectMetal(metal.name)}
+            title={formatMetalName(metal)}
+            aria-label={formatMetalName(metal)}
+            style={{
+              width: "24px",
+              height: "24px",
+              borderRadius: "50%",
+              background: metal.swatch,
+              border: `2px solid ${selectedMetal === metal.name ? "#5c4a3a" : "#ffffff"}`,
+              boxShadow: "0 0 0 1px #ab9580",
+              cursor: "pointer",
+              padding: 0
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Up to four rings side by side, turned together with any of the viewports,
+ * each in its own metal, with their details in a table underneath
+ */
+export default function RingComparison({ rings, options, metals }: RingComparisonProps) {
+  const router = useRouter();
+  // Kept in a ref, since camera moves shouldn't re-render the page
+  const sync = useRef<CameraSync>({ position: new THREE.Vector3(...CAMERA_POSITION), source: null, version: 0 }).current;
+  const [selectedMetals, setSelectedMetals] = useState<Record<string, string>>({});
+
+  const getKey = (ring: ComparedRingRef) => `${ring.category}/${ring.slug}`;
+  const getSelectedMetal = (ring: CatalogModel) =>
+    selectedMetals[getKey(ring)] ??
+    getDefaultBand(getBandOptions(metals, ring.metadata), ring.metadata?.defaultMetal, DEFAULT_METAL);
+
+  const availableOptions = options.filter((option) => !rings.some((ring) => getKey(ring) === getKey(option)));
+  const optionCategories = Array.from(new Set(availableOptions.map((option) => option.category)));
+
+  const handleAdd = (key: string) => {
+    const option = availableOptions.find((candidate) => getKey(candidate) === key);
+    if (option) router.push(getCompareUrl([...rings, option]));
+  };
+  const handleRemove = (ring: CatalogModel) => {
+    router.push(getCompareUrl(rings.filter((candidate) => candidate !== ring)));
+  };
+
+  return (
+    <div style={{ width: "100%", maxWidth: "1400px", margin: "0 auto", padding: "0 16px" }}>
+      <Leva hidden />
+
+      {rings.length === 0 ? (
+        <p style={{ textAlign: "center", color: "#8b7355", margin: "40px 0" }}>
+          Add up to {MAX_COMPARED_RINGS} rings to compare them side by side.
+        </p>
+      ) : (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: `repeat(auto-fit, minmax(min(100%, 260px), 1fr))`,
+            gap: "16px"
+          }}
+        >
+          {rings.map((ring, index) => (
+            <ComparedRingView
+              key={getKey(ring)}
+              ring={ring}
+              index={index}
+              sync={sync}
+              metals={metals}
+              selectedMetal={getSelectedMetal(ring)}
+              onSelectMetal={(metalName) => setSelectedMetals((prev) => ({ ...prev, [getKey(ring)]: metalName }))}
+              onRemove={() => handleRemove(ring)}
+            />
+          ))}
+        </div>
+      )}
+
+      {rings.length < MAX_COMPARED_RINGS && availableOptions.length > 0 && (
+        <div style={{ display: "flex", justifyContent: "center", margin: "20px 0" }}>
+          <select
+            value=""
+            onChange={(event) => handleAdd(event.target.value)}
+            style={{
+              padding: "8px 12px",
+              fontSize: "14px",
+              border: "1px solid #ab9580",
+              borderRadius: "8px",
+              background: "#fff",
+              color: "#5c4a3a"
+            }}
+          >
+            <option value="">Add a ring to compare…</option>
+            {optionCategories.map((category) => (
+              <optgroup key={category} label={category}>
+                {availableOptions
+                  .filter((option) => option.category === category)
+                  .map((option) => (
+                    <option key={getKey(option)} value={getKey(option)}>
+                      {option.name}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {rings.length > 0 && (
+        <div style={{ overflowX: "auto", margin: "20px 0 40px" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", color: "#5c4a3a", fontSize: "14px" }}>
+            <thead>
+              <tr>
+                <th style={{ width: "120px" }} />
+                {rings.map((ring) => (
+                  <th
+                    key={getKey(ring)}
+                    style={{ padding: "8px", textAlign: "left", borderBottom: "2px solid #ab9580", fontWeight: 600 }}
+                  >
+                    {getDisplayName(ring.slug, ring.metadata)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {TABLE_ROWS.map((row) => (
+                <tr key={row.label}>
+                  <th style={{ padding: "8px", textAlign: "left", borderBottom: "1px solid #e5dcd3", fontWeight: 600 }}>
+                    {row.label}
+                  </th>
+                  {rings.map((ring) => (
+                    <td
+                      key={getKey(ring)}
+                      style={{ padding: "8px", borderBottom: "1px solid #e5dcd3", verticalAlign: "top" }}
+                    >
+                      {row.value(ring, metals)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
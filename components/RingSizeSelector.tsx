@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  RING_SIZES,
+  RING_SIZE_SYSTEMS,
+  findClosestRingSize,
+  formatRingSize,
+  getInnerCircumference,
+  getRingSize,
+  type RingSize,
+  type RingSizeSystem
+} from '@/lib/ringSizes';
+
+interface RingSizeSelectorProps {
+  // null shows the ring as modelled
+  ringSize: RingSize | null;
+  // Inner diameter of the model as exported, in mm
+  modelInnerDiameter: number;
+  onChange: (ringSize: RingSize | null) => void;
+  compact?: boolean;
+}
+
+/**
+ * Finger size picker in US, UK or EU sizes, showing the inner circumference
+ * the ring ends up with
+ */
+export default function RingSizeSelector({
+  ringSize,
+  modelInnerDiameter,
+  onChange,
+  compact = false
+}: RingSizeSelectorProps) {
+  const [system, setSystem] = useState<RingSizeSystem>(ringSize?.system ?? "US");
+  const innerDiameter = ringSize?.innerDiameter ?? modelInnerDiameter;
+
+  // Keeps the selected size, converted to the closest size in the other system
+  const handleSystemChange = (newSystem: RingSizeSystem) => {
+    setSystem(newSystem);
+    if (ringSize) onChange(findClosestRingSize(newSystem, ringSize.innerDiameter));
+  };
+
+  return (
+    <div style={{ marginTop: compact ? "8px" : "14px" }}>
+      {!compact && (
+        <h2
+          style={{
+            margin: "0 0 8px",
+            fontSize: "1.3em",
+            fontWeight: "600",
+            whiteSpace: "nowrap"
+          }}
+        >
+          Ring Size
+        </h2>
+      )}
+
+      <div style={{ display: "flex", gap: "6px", alignItems: "center" }}>
+        <div
+          style={{
+            display: "flex",
+            background: "#ab9580",
+            borderRadius: compact ? "14px" : "20px",
+            padding: "2px"
+          }}
+        >
+          {RING_SIZE_SYSTEMS.map((option) => (
+            <button
+              key={option}
+              onClick={() => handleSystemChange(option)}
+              style={{
+                background: system === option ? "#ffffff" : "transparent",
+                color: system === option ? "#000000" : "#ffffff",
+                border: "none",
+                borderRadius: compact ? "14px" : "16px",
+                padding: compact ? "3px 6px" : "4px 8px",
+                fontSize: compact ? "10px" : "12px",
+                fontWeight: "bold",
+                cursor: "pointer",
+                transition: "all 0.2s ease"
+              }}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={ringSize?.system === system ? ringSize.label : ""}
+          onChange={(event) => onChange(event.target.value ? getRingSize(system, event.target.value) ?? null : null)}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            padding: compact ? "2px 4px" : "4px 6px",
+            fontSize: compact ? "10px" : "12px",
+            border: "1px solid #ab9580",
+            borderRadius: "8px",
+            background: "#fff"
+          }}
+        >
+          <option value="">
+            As modelled (≈ {formatRingSize(findClosestRingSize(system, modelInnerDiameter))})
+          </option>
+          {RING_SIZES[system].map((size) => (
+            <option key={size.label} value={size.label}>
+              {size.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ marginTop: "6px", fontSize: compact ? "10px" : "12px", color: "#5c4a3a" }}>
+        Inner circumference: {getInnerCircumference(innerDiameter).toFixed(1)} mm
+        {!compact && ` (Ø ${innerDiameter.toFixed(1)} mm)`}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import React from 'react';
+
+export interface StackOption {
+  // "<category>/<slug>"
+  model: string;
+  name: string;
+}
+
+interface RingStackSelectorProps {
+  // Rings on the finger in order, with their display names
+  rings: StackOption[];
+  // The ring whose metal and finish the band options edit
+  activeRing: string;
+  // The ring the page is about, which can't be removed
+  mainRing: string;
+  options: StackOption[];
+  maxRings: number;
+  onSelect: (model: string) => void;
+  onAdd: (model: string) => void;
+  onRemove: (model: string) => void;
+  onMove: (model: string, direction: -1 | 1) => void;
+  compact?: boolean;
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  background: "transparent",
+  border: "none",
+  color: "inherit",
+  cursor: "pointer",
+  padding: "0 2px",
+  fontSize: "inherit",
+  lineHeight: 1
+};
+
+/**
+ * Rings worn together on one finger, e.g. an engagement ring with wedding bands.
+ * Picking a ring makes the band options below apply to it.
+ */
+export default function RingStackSelector({
+  rings,
+  activeRing,
+  mainRing,
+  options,
+  maxRings,
+  onSelect,
+  onAdd,
+  onRemove,
+  onMove,
+  compact = false
+}: RingStackSelectorProps) {
+  const availableOptions = options.filter((option) => !rings.some((ring) => ring.model === option.model));
+  const categories = Array.from(new Set(availableOptions.map((option) => option.model.split("/")[0])));
+
+  return (
+    <div style={{ marginBottom: compact ? "8px" : "14px" }}>
+      {!compact && (
+        <h2
+          style={{
+            margin: "0 0 8px",
+            fontSize: "1.3em",
+            fontWeight: "600",
+            whiteSpace: "nowrap"
+          }}
+        >
+          Ring Stack
+        </h2>
+      )}
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+        {rings.map((ring, index) => {
+          const isActive = ring.model === activeRing;
+          return (
+            <div
+              key={ring.model}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "2px",
+                maxWidth: "100%",
+                background: isActive ? "#ab9580" : "transparent",
+                color: isActive ? "#ffffff" : "#5c4a3a",
+                border: "1px solid #ab9580",
+                borderRadius: compact ? "14px" : "16px",
+                padding: compact ? "2px 6px" : "3px 8px",
+                fontSize: compact ? "10px" : "12px",
+                fontWeight: "bold"
+              }}
+            >
+              {isActive && rings.length > 1 && index > 0 && (
+                <button onClick={() => onMove(ring.model, -1)} aria-label="Move left" style={smallButtonStyle}>
+                  ‹
+                </button>
+              )}
+              <button
+                onClick={() => onSelect(ring.model)}
+                style={{ ...smallButtonStyle, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+              >
+                {ring.name}
+              </button>
+              {isActive && rings.length > 1 && index < rings.length - 1 && (
+                <button onClick={() => onMove(ring.model, 1)} aria-label="Move right" style={smallButtonStyle}>
+                  ›
+                </button>
+              )}
+              {ring.model !== mainRing && (
+                <button onClick={() => onRemove(ring.model)} aria-label={`Remove ${ring.name}`} style={smallButtonStyle}>
+                  ×
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {rings.length < maxRings && availableOptions.length > 0 && (
+        <select
+          value=""
+          onChange={(event) => event.target.value && onAdd(event.target.value)}
+          style={{
+            width: "100%",
+            marginTop: "6px",
+            padding: compact ? "2px 4px" : "4px 6px",
+            fontSize: compact ? "10px" : "12px",
+            border: "1px solid #ab9580",
+            borderRadius: "8px",
+            background: "#fff"
+          }}
+        >
+          <option value="">Add a ring to the stack…</option>
+          {categories.map((category) => (
+            <optgroup key={category} label={category}>
+              {availableOptions
+                .filter((option) => option.model.split("/")[0] === category)
+                .map((option) => (
+                  <option key={option.model} value={option.model}>
+                    {option.name}
+                  </option>
+                ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
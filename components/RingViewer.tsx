@@ -1,9 +1,9 @@
 "use client";
 
-import { useEffect, useRef, Suspense, useCallback, useMemo } from "react";
+import { useEffect, useRef, Suspense, useCallback, useMemo, type ComponentProps, type ComponentType } from "react";
 import { useFrame } from '@react-three/fiber'
 import * as THREE from "three";
-import { Canvas, useThree, useLoader } from "@react-three/fiber";
+import { Canvas, useThree, useLoader, type ThreeEvent } from "@react-three/fiber";
 import {
   OrbitControls,
   Environment,
@@ -11,6 +11,7 @@ import {
   Stats,
   useProgress,
   Html,
+  Text,
 } from "@react-three/drei";
 import { useControls } from "leva";
 import React, { createContext, useContext, useState, useReducer, Component, ErrorInfo } from 'react';
@@ -21,6 +22,48 @@ import { CombinedLoader } from './DiamondLoader';
 import dynamic from 'next/dynamic';
 import { MeshRefractionMaterial } from "@react-three/drei";
 import JSZip from 'jszip';
+import { Rhino3dmLoader } from 'three/examples/jsm/loaders/3DMLoader.js';
+import { is3dmPath, rhinoObjectToNodes, RHINO3DM_LIBRARY_PATH, type RingNodes } from '@/lib/load3dm';
+import { getDisplayName, getModelSlug, type ModelMetadata } from '@/lib/modelMetadata';
+import { serializeViewerConfig, type ViewerConfig } from '@/lib/viewerConfig';
+import { exportStill, type ImageExportOptions } from '@/lib/imageExport';
+import { recordTurntable, type TurntableOptions } from '@/lib/turntableExport';
+import { publishViewerStatus, type ViewerStatusChange, type ViewerStatusEvent } from '@/lib/viewerStatus';
+import type { ClassificationOverrides, NodeRole } from '@/lib/classificationOverrides';
+import { classifyRing } from '@/lib/classifyRing';
+import { getRingFrame } from '@/lib/gemScoring';
+import { getModelInnerDiameter, resizeRing } from '@/lib/ringResize';
+import { getMetal, getBandOptions, getDefaultBand, formatMetalName, DEFAULT_METAL, DEFAULT_METALS, type Metal } from '@/lib/metals';
+import { getRingExtent, getStackOffsets, getStackPosition, MAX_STACKED_RINGS, type RingExtent } from '@/lib/ringStack';
+import { ensureRingUVs, getFinishTextures, getMetalFinish, DEFAULT_FINISH, METAL_FINISHES, type MetalFinish } from '@/lib/finishes';
+import type { RingSize } from '@/lib/ringSizes';
+import {
+  getEngravingFont,
+  getEngravingPlacement,
+  getMaxEngravingLength,
+  sanitizeEngravingText,
+  DEFAULT_ENGRAVING_FONT,
+  type Engraving,
+  type EngravingPlacement
+} from '@/lib/engraving';
+import { resolveGemMaterial, isGemName, DEFAULT_GEM, GEM_MATERIALS, type GemMaterial, type GemSelection } from '@/lib/gems';
+import { GEM_ROLES, type GemRole } from '@/lib/gemRoles';
+import ShareLinkButton from './ShareLinkButton';
+import ClassificationEditor from './ClassificationEditor';
+import GemSelector from './GemSelector';
+import RingSizeSelector from './RingSizeSelector';
+import EngravingInput from './EngravingInput';
+import FinishSelector from './FinishSelector';
+import RingStackSelector, { type StackOption } from './RingStackSelector';
+import ModelSwitcher, { type ModelSwitcherOption } from './ModelSwitcher';
+import CommerceButton from './CommerceButton';
+import LeadForm from './LeadForm';
+import ImageExportButton from './ImageExportButton';
+import TurntableExportButton from './TurntableExportButton';
+import PriceEstimate from './PriceEstimate';
+import type { CommerceAction } from '@/lib/commerce';
+import type { PriceEstimate as Estimate } from '@/lib/pricing';
+import type { ApiError, PriceEstimateResponse } from '@/lib/apiV1';
 
 // Import the PhotosphereViewer type
 import type { FC } from 'react';
@@ -262,6 +305,20 @@ export function PerformanceMonitor({
   );
 }
 
+/**
+ * The studio lighting rings are shown in, reflected by the metal and refracted by the stones
+ */
+export function RingEnvironment({ intensity = 2.2 }: { intensity?: number }) {
+  return (
+    <Environment 
+      files="/studio.hdr" 
+      background={false}
+      environmentIntensity={intensity}
+      blur={0}
+    />
+  );
+}
+
 // Add this helper hook to check if environment is loaded
 function useEnvironment() {
   const { scene } = useThree();
@@ -292,13 +349,6 @@ const ClientRingViewer = dynamic(() => Promise.resolve(RingViewerComponent), {
   ssr: false
 });
 
-// Helper function to detect yellowish colors (likely gold bands)
-function isYellowishColor(color: THREE.Color): boolean {
-  // Yellow colors typically have higher red and green components, and lower blue
-  // This threshold can be adjusted based on the specific colors in your models
-  return color.r > 0.6 && color.g > 0.5 && color.b < 0.5;
-}
-
 // Update the Diamond component to handle hydration-related issues
 /**
  * Props for the Diamond component
@@ -310,6 +360,9 @@ interface DiamondProps {
   rotation?: [number, number, number];
   scale?: [number, number, number];
   material?: THREE.Material | THREE.Material[];
+  onClick?: (event: ThreeEvent<MouseEvent>) => void;
+  // Gem type to render with; the model's own material is ignored
+  gem: GemMaterial;
 }
 
 function Diamond(props: DiamondProps) {
@@ -364,17 +417,17 @@ function Diamond(props: DiamondProps) {
   // Complete override of any material properties from the original model
   const config = {
     bounces: 3,
-    aberrationStrength: 0.01,
-    ior: 2.75,
+    aberrationStrength: props.gem.aberrationStrength,
+    ior: props.gem.ior,
     fresnel: 1,
-    color: "white",
+    color: props.gem.color,
     transmission: 0,
     thickness: 0.5,
     roughness: 0,
     clearcoat: 0.1,
     clearcoatRoughness: 0.1,
-    attenuationDistance: 1,
-    attenuationColor: "#ffffff",
+    attenuationDistance: props.gem.attenuationDistance,
+    attenuationColor: props.gem.attenuationColor,
   };
   
   // Adjust blur based on performance
@@ -396,10 +449,11 @@ function Diamond(props: DiamondProps) {
         position={props.position}
         rotation={props.rotation}
         scale={props.scale}
+        onClick={props.onClick}
       >
         <meshPhysicalMaterial 
           key={`${debugId}_physical`}
-          color="#ffffff"
+          color={props.gem.color}
           roughness={0.1}
           metalness={0.05}
           transparent={true}
@@ -408,7 +462,7 @@ function Diamond(props: DiamondProps) {
           clearcoatRoughness={0.05}
           reflectivity={1.2}
           envMapIntensity={3.0}
-          ior={2.4}
+          ior={props.gem.ior}
         />
       </mesh>
     );
@@ -423,6 +477,7 @@ function Diamond(props: DiamondProps) {
       position={props.position}
       rotation={props.rotation}
       scale={props.scale}
+      onClick={props.onClick}
     >
       <SafeMeshRefractionMaterial
         key={`${debugId}_refraction`}
@@ -442,45 +497,6 @@ function Diamond(props: DiamondProps) {
   );
 }
 
-// Function to analyze a material and determine if it's likely a gemstone
-const isGemMaterial = (material: THREE.Material | undefined): boolean => {
-  if (!material) return false;
-  
-  // Check for explicit diamond material extension (most reliable metadata)
-  if (material.userData?.gltfExtensions?.WEBGI_materials_diamond) return true;
-  
-  // Check material name for gem indicators (secondary metadata)
-  const materialName = material.name.toLowerCase();
-  if (materialName.includes('diamond') || 
-      materialName.includes('gem') || 
-      materialName.includes('crystal') ||
-      materialName.includes('stone')) {
-    return true;
-  }
-  
-  // Note: We still check basic properties but don't rely on them as much
-  if (material instanceof THREE.MeshStandardMaterial) {
-    // Check for extremely clear indicators only
-    // Non-metallic and highly transparent is likely a gem
-    const isNonMetallic = material.metalness === 0;
-    const isHighlyTransparent = material.transparent === true && material.opacity < 0.5;
-    
-    // Only use material properties if they're very strong indicators
-    if (isNonMetallic && isHighlyTransparent) {
-      return true;
-    }
-    
-    // Check for yellowish color which typically indicates gold bands
-    const isYellowish = material.color && isYellowishColor(material.color);
-    if (isYellowish) {
-      return false; // Definitely not a gem if yellowish
-    }
-  }
-  
-  // For ambiguous cases, we'll rely on the geometric/position detection instead
-  return false;
-};
-
 // AnimatedStandardMaterial component to gradually animate the color change
 /**
  * Interface for AnimatedStandardMaterial props
@@ -489,6 +505,8 @@ interface AnimatedStandardMaterialProps {
   targetColor: string;
   metalness: number;
   roughness: number;
+  // Surface finish layered on top of the metal; high polish when unset
+  finish?: MetalFinish;
   [key: string]: any; // Allow additional props to pass to meshStandardMaterial
 }
 
@@ -496,68 +514,189 @@ interface AnimatedStandardMaterialProps {
  * A standard material that smoothly animates to a target color
  * 
  * This component wraps a MeshStandardMaterial and uses useFrame to smoothly
- * transition the material's color to a target color over time.
+ * transition the material's color to a target color over time. Finishes with
+ * anisotropy switch to a MeshPhysicalMaterial, the only material that supports it.
  * 
  * @param props - Material properties including target color to animate to
  */
-function AnimatedStandardMaterial({ targetColor, metalness, roughness, ...props }: AnimatedStandardMaterialProps) {
+function AnimatedStandardMaterial({ targetColor, metalness, roughness, finish, ...props }: AnimatedStandardMaterialProps) {
   const materialRef = useRef<THREE.MeshStandardMaterial>(null!);
   // Store the target color in a ref to persist between renders
   const targetColorRef = useRef(new THREE.Color(targetColor));
+  // The animated color lives outside the material, so it carries over when a finish change replaces it
+  const currentColorRef = useRef(new THREE.Color(targetColor));
  
   // Update the target color ref whenever the prop changes
   useEffect(() => {
     targetColorRef.current.set(targetColor);
   }, [targetColor]);
  
-  // On the first mount, set the material's color to the target color
-  useEffect(() => {
-    if (materialRef.current) {
-      materialRef.current.color.set(targetColor);
-    }
-  }, []);
- 
   const speed = 3; // Adjust this speed factor as needed
   useFrame((state, delta) => {
     if (materialRef.current) {
       // Lerp the current color toward the stored target color
-      materialRef.current.color.lerp(targetColorRef.current, delta * speed);
+      currentColorRef.current.lerp(targetColorRef.current, delta * speed);
+      materialRef.current.color.copy(currentColorRef.current);
     }
   });
 
-  return (
-    <meshStandardMaterial
-      ref={materialRef}
-      metalness={metalness}
-      roughness={roughness}
-      {...props}
+  const textures = finish?.pattern ? getFinishTextures(finish.pattern) : null;
+  const normalScale = finish?.normalScale ?? 1;
+  const normalScaleVector = useMemo(() => new THREE.Vector2(normalScale, normalScale), [normalScale]);
+  // Keyed by finish, since adding or removing maps needs a new shader
+  const materialKey = finish?.name ?? DEFAULT_FINISH;
+  const finishProps = {
+    color: currentColorRef.current,
+    metalness,
+    roughness: finish?.roughness ?? roughness,
+    roughnessMap: textures?.roughnessMap ?? null,
+    normalMap: textures?.normalMap ?? null,
+    normalScale: normalScaleVector,
+    ...props
+  };
+
+  return finish && finish.anisotropy > 0 ? (
+    <meshPhysicalMaterial
+      key={materialKey}
+      ref={materialRef as React.MutableRefObject<THREE.MeshPhysicalMaterial>}
+      {...finishProps}
+      anisotropy={finish.anisotropy}
     />
+  ) : (
+    <meshStandardMaterial key={materialKey} ref={materialRef} {...finishProps} />
   );
 }
 
+// drei's Text passes curveRadius through to troika's Text but leaves it out of its prop types
+const CurvedText = Text as ComponentType<ComponentProps<typeof Text> & { curveRadius?: number }>;
+
+/**
+ * Engraved text curved along the inside of the band
+ *
+ * The text is drawn in a darker, rougher version of the band metal, the way
+ * engraving catches less light than the polished surface around it.
+ */
+function EngravingText({ text, font, placement, color }: {
+  text: string;
+  font: string;
+  placement: EngravingPlacement;
+  color: string;
+}) {
+  const material = useMemo(() => new THREE.MeshStandardMaterial({ metalness: 1, roughness: 0.6 }), []);
+  useEffect(() => () => material.dispose(), [material]);
+  useEffect(() => {
+    material.color.set(darkenColor(darkenColor(color)));
+  }, [material, color]);
+
+  return (
+    <CurvedText
+      font={getEngravingFont(font).url}
+      fontSize={placement.fontSize}
+      anchorX="center"
+      anchorY="middle"
+      position={placement.position.toArray()}
+      quaternion={placement.quaternion}
+      material={material}
+      curveRadius={placement.radius}
+    >
+      {text}
+    </CurvedText>
+  );
+}
+
+/**
+ * Props shared by RingModel and the per-format loaders it delegates to
+ */
+export interface RingModelProps {
+  modelPath: string;
+  // Metals the selected band names are looked up in
+  metals: Metal[];
+  selectedBandColor: string;
+  selectedAccentBandColor: string;
+  // Surface finish names for the primary and accent bands
+  selectedFinish?: string;
+  selectedAccentFinish?: string;
+  onAccentBandDetected?: (hasAccentBand: boolean) => void;
+  // Gem type and color for the center, side and accent stones
+  gemSelections: Record<GemRole, GemSelection>;
+  // Reports the role of every gem, keyed by node name
+  onGemRolesChange?: (gemRoles: Record<string, GemRole>) => void;
+  // Target inner diameter in mm; the ring is shown as modelled when unset
+  ringInnerDiameter?: number | null;
+  // Reports the inner diameter as modelled, or null when the ring can't be resized
+  onModelInnerDiameterChange?: (innerDiameter: number | null) => void;
+  // Text shown along the inside of the band
+  engraving?: Engraving | null;
+  // Nodes hidden when the model first loads, e.g. from a shared link
+  initialHiddenNodes?: string[];
+  onHiddenNodesChange?: (hiddenNodes: string[]) => void;
+  // Manual roles that replace the heuristic classification for individual nodes
+  classificationOverrides?: ClassificationOverrides | null;
+  // When set, clicking a mesh reports its name (used by the classification editor)
+  onNodeClick?: (nodeName: string) => void;
+  selectedNodeName?: string | null;
+  // Position along the finger axis in a stack of rings, in mm; the ring stays where it was modelled when unset
+  stackOffset?: number;
+  // Reports how far the ring reaches along the finger axis, or null when it has no band
+  onExtentChange?: (extent: RingExtent | null) => void;
+}
+
+/**
+ * Loads a Rhino .3dm file and flattens it into the same nodes map useGLTF returns
+ *
+ * @param modelPath - URL of the .3dm file
+ */
+function useRhino3dm(modelPath: string): RingNodes {
+  const object = useLoader(Rhino3dmLoader, modelPath, (loader) => {
+    loader.setLibraryPath(RHINO3DM_LIBRARY_PATH);
+  });
+  return useMemo(() => rhinoObjectToNodes(object), [object]);
+}
+
+function GLTFRingModel({ modelPath, ...props }: RingModelProps) {
+  const { nodes } = useGLTF(modelPath) as GLTFResult;
+  return <RingModelContents nodes={nodes} {...props} />;
+}
+
+function Rhino3dmRingModel({ modelPath, ...props }: RingModelProps) {
+  const { nodes } = useRhino3dm(modelPath);
+  return <RingModelContents nodes={nodes} {...props} />;
+}
+
 // RingModel component to handle different file formats
-function RingModel({ 
-  modelPath, 
+export function RingModel(props: RingModelProps) {
+  return is3dmPath(props.modelPath)
+    ? <Rhino3dmRingModel {...props} />
+    : <GLTFRingModel {...props} />;
+}
+
+// Turns the models' finger axis (+Y) towards the camera's depth and their heads (+Z) up
+const RING_ROTATION = new THREE.Euler(-Math.PI / 2, 0, 0);
+
+// Classifies and renders the nodes of a loaded model, whatever format it came from
+function RingModelContents({ 
+  nodes,
+  metals,
   selectedBandColor, 
   selectedAccentBandColor,
-  onAccentBandDetected 
-}: { 
-  modelPath: string, 
-  selectedBandColor: string,
-  selectedAccentBandColor: string,
-  onAccentBandDetected?: (hasAccentBand: boolean) => void
-}) {
-  // Use the standard GLTF loader
-  const { nodes: gltfNodes, materials, animations } = useGLTF(modelPath) as GLTFResult;
-  
-  // Use the nodes from the loader
-  const nodes = gltfNodes;
-  
+  selectedFinish,
+  selectedAccentFinish,
+  onAccentBandDetected,
+  gemSelections,
+  onGemRolesChange,
+  ringInnerDiameter,
+  onModelInnerDiameterChange,
+  engraving,
+  initialHiddenNodes = [],
+  onHiddenNodesChange,
+  classificationOverrides,
+  onNodeClick,
+  selectedNodeName,
+  stackOffset,
+  onExtentChange
+}: Omit<RingModelProps, 'modelPath'> & { nodes: RingNodes['nodes'] }) {
   const ringRef = useRef<THREE.Group>(null!);
   
-  // Log the nodes to the console
-  console.log("3D Model Nodes:", nodes);
-
   // Node visibility controls
   const meshNodes = Object.entries(nodes || {}).filter(
     ([_, node]) => node instanceof THREE.Mesh
@@ -565,279 +704,35 @@ function RingModel({
   
   const visibilityControls = useControls('Node Visibility', 
     Object.fromEntries(
-      meshNodes.map(([name, _]) => [ name, true ])
+      meshNodes.map(([name, _]) => [ name, !initialHiddenNodes.includes(name) ])
     )
   );
 
-  const bandMaterials = {
-    'Yellow Gold': { color: '#ffdc73', metalness: 1, roughness: 0.2 },
-    'Rose Gold': { color:'#d5927a', metalness: 1, roughness: 0.2 },
-    'White Gold': { color: '#E8E8E8', metalness: 1, roughness: 0.15 },
-    'Platinum': { color: '#E5E4E2', metalness: 1, roughness: 0.1 }
-  };
-
-  const selectedMaterial = bandMaterials[selectedBandColor as keyof typeof bandMaterials];
-  const selectedAccentMaterial = bandMaterials[selectedAccentBandColor as keyof typeof bandMaterials];
-
-  if (!nodes) return null;
-  
-  // Analyze the overall model characteristics to establish baselines
-  // This helps with position and size based detection
-  const meshData = analyzeModelData(nodes);
-  console.log("Model analysis:", meshData);
-  
-  // Categorize nodes into gems and metal parts based on material properties
-  const gemNodes: THREE.Mesh[] = [];
-  let primaryBandNodes: THREE.Mesh[] = [];
-  const accentBandNodes: THREE.Mesh[] = [];
-  
-  // Helper function to check if a node is likely a gem based on position
-  const isGemByPosition = (node: THREE.Mesh): boolean => {
-    // In most rings, gems are positioned at the top
-    const isAboveAverageHeight = node.position.y > meshData.averageY + (meshData.maxY - meshData.minY) * 0.1;
-    
-    // Many rings have gems positioned near center (X/Z) of the ring
-    const distanceFromCenter = Math.sqrt(
-      Math.pow(node.position.x - meshData.centerX, 2) + 
-      Math.pow(node.position.z - meshData.centerZ, 2)
-    );
-    
-    const isNearCenter = distanceFromCenter < meshData.avgDistanceFromCenter * 0.8;
-    
-    // Combine position criteria - either high up or close to center
-    return isAboveAverageHeight || isNearCenter;
-  };
-  
-  // Helper function to check if a node is likely a gem based on size
-  const isGemBySize = (node: THREE.Mesh): boolean => {
-    // Get bounding box size
-    const box = new THREE.Box3().setFromObject(node);
-    const size = new THREE.Vector3();
-    box.getSize(size);
-    
-    // Calculate volume
-    const volume = size.x * size.y * size.z;
-    
-    // Gems are typically smaller than bands
-    const isSmallerThanAverage = volume < meshData.averageVolume * 0.8;
-    
-    // But not too small (to filter out tiny accent pieces)
-    const isNotTooSmall = volume > meshData.averageVolume * 0.05;
-    
-    // Gems often have a more balanced aspect ratio compared to bands
-    const aspectRatioX = size.x / Math.max(size.y, size.z);
-    const aspectRatioY = size.y / Math.max(size.x, size.z);
-    const aspectRatioZ = size.z / Math.max(size.x, size.y);
-    
-    // Values closer to 1 indicate more cubic/spherical shapes
-    const isBalancedShape = (
-      aspectRatioX > 0.3 && aspectRatioX < 3 &&
-      aspectRatioY > 0.3 && aspectRatioY < 3 &&
-      aspectRatioZ > 0.3 && aspectRatioZ < 3
-    );
-    
-    return isSmallerThanAverage && isNotTooSmall && isBalancedShape;
-  };
-  
-  // Helper function to check if a node is likely a gem based on geometry patterns
-  const isGemByGeometry = (node: THREE.Mesh): boolean => {
-    if (!node.geometry?.attributes?.position) return false;
-    
-    const vertexCount = node.geometry.attributes.position.count;
-    
-    // Check for facet patterns typical in gems
-    // - Gems usually have more vertices than simple bands
-    // - But not too many (very high count often indicates band with details)
-    const isReasonableVertexCount = vertexCount < 3000;
-    
-    // Check for triangulation patterns
-    const hasIndex = !!node.geometry.index;
-    const indexCount = node.geometry.index?.count || 0;
-    
-    // Gems typically have a higher ratio of indices to vertices due to facets
-    const indexToVertexRatio = hasIndex ? indexCount / vertexCount : 0;
-    const hasGemLikeIndexRatio = indexToVertexRatio > 2.5;
-    
-    return isReasonableVertexCount && hasGemLikeIndexRatio;
-  };
-  
-  // Function that combines multiple gem detection criteria 
-  const isLikelyGem = (node: THREE.Mesh, nodeName: string): boolean => {
-    // Try material-based detection first
-    const material = node.material instanceof THREE.Material ? node.material : undefined;
-    if (isGemMaterial(material)) {
-      console.log(`Node "${nodeName}" detected as gem by material properties`);
-      return true;
-    }
-    
-    // Only do further checks for meshes with 2000-3000 vertices
-    // (meshes with fewer than 2000 vertices are already classified as gems before this function is called)
-    const vertexCount = node.geometry?.attributes?.position?.count || 0;
-    if (vertexCount > 3000) {
-      return false;
-    }
-    
-    // Combine scores from different detection methods
-    const positionScore = isGemByPosition(node) ? 1 : 0;
-    const sizeScore = isGemBySize(node) ? 1 : 0;
-    const geometryScore = isGemByGeometry(node) ? 1 : 0;
-    
-    // Total score threshold (at least 2 out of 3 criteria should match)
-    const totalScore = positionScore + sizeScore + geometryScore;
-    const isGem = totalScore >= 2;
-    
-    if (isGem) {
-      console.log(`Node "${nodeName}" detected as gem by position/size/geometry: Score ${totalScore}/3`);
-      console.log(`  - By position: ${positionScore}, By size: ${sizeScore}, By geometry: ${geometryScore}`);
-    }
-    
-    return isGem;
-  };
-  
-  // First pass: categorize nodes based on material properties and enhanced detection
-  for (const [nodeName, node] of Object.entries(nodes)) {
-    if (node instanceof THREE.Mesh) {
-      const material = node.material instanceof THREE.Material ? node.material : undefined;
-      const vertexCount = node.geometry?.attributes?.position?.count || 0;
-      
-      // Log vertex count to help with diagnostics
-      console.log(`Node "${nodeName}" has ${vertexCount} vertices`);
-      
-      // Check material metadata first - highest priority indicator
-      if (isGemMaterial(material)) {
-        console.log(`Node "${nodeName}" classified as gem: Material metadata indicates gemstone`);
-        gemNodes.push(node);
-        continue;
-      }
-      
-      // Calculate a comprehensive gem score that considers multiple factors
-      const gemScore = calculateGemScore(node, nodeName, meshData);
-      console.log(`Node "${nodeName}" gem score: ${gemScore.toFixed(1)}/100`);
-      
-      // High gem score (>75) means it's very likely a gem regardless of vertex count
-      if (gemScore > 75) {
-        console.log(`Node "${nodeName}" classified as gem: Very high gem score ${gemScore.toFixed(1)}/100`);
-        gemNodes.push(node);
-        continue;
-      }
-      
-      // Low gem score (<40) means it's very likely a band regardless of vertex count
-      if (gemScore < 40) {
-        console.log(`Node "${nodeName}" classified as band: Low gem score ${gemScore.toFixed(1)}/100`);
-        
-        // Determine if it's primary or accent band
-        classifyBandNode(node, material, primaryBandNodes, accentBandNodes, nodeName);
-        continue;
-      }
-      
-      // For scores in the middle (40-75), use additional criteria
-      // Check for traditional band shape/characteristics even if gem score is moderate
-      const isThinRing = isThinRingShape(node, meshData);
-      if (isThinRing) {
-        console.log(`Node "${nodeName}" classified as band: Has ring-like shape despite moderate gem score`);
-        classifyBandNode(node, material, primaryBandNodes, accentBandNodes, nodeName);
-        continue;
-      }
-      
-      // For scores in the middle (40-75), use vertex count as a tiebreaker
-      // but with expanded ranges to account for exceptional cases
-      if (vertexCount > 6000) {
-        // Very high vertex count - likely a band unless the gem score is very high
-        console.log(`Node "${nodeName}" classified as band: Very high vertex count (${vertexCount} > 6000) with medium gem score`);
-        classifyBandNode(node, material, primaryBandNodes, accentBandNodes, nodeName);
-      } else if (vertexCount < 2000) {
-        // Low vertex count - likely a gem unless the gem score is quite low
-        console.log(`Node "${nodeName}" classified as gem: Low vertex count (${vertexCount} < 2000) with medium gem score`);
-        gemNodes.push(node);
-      } else {
-        // Medium vertex count - use position, size, and material as tiebreakers
-        const positionScore = isGemByPosition(node) ? 1 : 0;
-        const sizeScore = isGemBySize(node) ? 1 : 0;
-        const geometryScore = isGemByGeometry(node) ? 1 : 0;
-        
-        // Total score threshold (at least 2 out of 3 criteria should match)
-        const totalScore = positionScore + sizeScore + geometryScore;
-        
-        if (totalScore >= 2) {
-          console.log(`Node "${nodeName}" classified as gem: Medium vertex count with good position/size/geometry scores (${totalScore}/3)`);
-          gemNodes.push(node);
-        } else {
-          console.log(`Node "${nodeName}" classified as band: Medium vertex count with low position/size/geometry scores (${totalScore}/3)`);
-          classifyBandNode(node, material, primaryBandNodes, accentBandNodes, nodeName);
-        }
-      }
-    }
-  }
-  
-  // If we didn't classify any gems, try a fallback approach with geometry complexity
-  if (gemNodes.length === 0) {
-    console.log("No gems identified in first pass. Using fallback geometry complexity approach:");
-    // Remove all nodes from primary/accent bands and re-categorize
-    const allNodes = [...primaryBandNodes, ...accentBandNodes];
-    primaryBandNodes.length = 0;
-    accentBandNodes.length = 0;
-    
-    // Sort nodes by how likely they are to be gems using multiple criteria
-    allNodes.sort((a, b) => {
-      const scoreA = getGemLikelihoodScore(a, meshData);
-      const scoreB = getGemLikelihoodScore(b, meshData);
-      return scoreB - scoreA; // Higher score first
-    });
-    
-    // Take the top 20% as potential gems (or at least one)
-    const potentialGemCount = Math.max(1, Math.floor(allNodes.length * 0.2));
-    console.log(`Fallback approach: Considering top ${potentialGemCount} nodes (of ${allNodes.length}) as potential gems based on comprehensive scoring`);
-    
-    for (let i = 0; i < allNodes.length; i++) {
-      const node = allNodes[i];
-      const nodeName = node.name || `unnamed-${i}`;
-      
-      if (i < potentialGemCount) {
-        const score = getGemLikelihoodScore(node, meshData);
-        console.log(`Fallback: Node "${nodeName}" classified as gem: Composite gem score ${score.toFixed(1)}/100`);
-        gemNodes.push(node);
-      } else {
-        console.log(`Fallback: Node "${nodeName}" classified as band: Not in top ${potentialGemCount} by composite score`);
-        primaryBandNodes.push(node);
-      }
-    }
-  }
-  
-  // If we still have multiple nodes in primary band, try to identify accent bands
-  if (primaryBandNodes.length > 1 && accentBandNodes.length === 0) {
-    console.log("Analyzing multiple primary band nodes to identify potential accent bands:");
-    // Group by material
-    const materialGroups = groupNodesByMaterial(primaryBandNodes);
-    
-    console.log(`Found ${Object.keys(materialGroups).length} different material groups in primary band`);
-    
-    // If we have multiple material groups, the smallest ones are likely accent bands
-    if (Object.keys(materialGroups).length > 1) {
-      // Sort material groups by size
-      const sortedMaterialGroups = Object.entries(materialGroups)
-        .sort(([_, nodesA], [__, nodesB]) => nodesB.length - nodesA.length);
-      
-      // Keep the largest group as primary
-      const primaryMaterialKey = sortedMaterialGroups[0][0];
-      const primaryNodes = materialGroups[primaryMaterialKey];
-      console.log(`Keeping material group with ${primaryNodes.length} nodes as primary band`);
-      
-      // Move all others to accent
-      for (const [materialKey, nodes] of Object.entries(materialGroups)) {
-        if (materialKey !== primaryMaterialKey) {
-          console.log(`Reclassifying material group with ${nodes.length} nodes as accent band`);
-          accentBandNodes.push(...nodes);
-          // Remove these nodes from primaryBandNodes
-          primaryBandNodes = primaryBandNodes.filter(node => !nodes.includes(node));
-        }
-      }
-    }
-  }
-
-  console.log("Final classification:");
-  console.log("Gem Nodes:", gemNodes.length);
-  console.log("Primary Band Nodes:", primaryBandNodes.length);
-  console.log("Accent Band Nodes:", accentBandNodes.length);
+  // Report hidden nodes so they can be included in shared links
+  const hiddenNodesKey = Object.entries(visibilityControls)
+    .filter(([, visible]) => !visible)
+    .map(([name]) => name)
+    .join('\n');
+  useEffect(() => {
+    onHiddenNodesChange?.(hiddenNodesKey ? hiddenNodesKey.split('\n') : []);
+  }, [hiddenNodesKey, onHiddenNodesChange]);
+
+  const selectedMaterial = getMetal(metals, selectedBandColor);
+  const selectedAccentMaterial = getMetal(metals, selectedAccentBandColor);
+  const finish = getMetalFinish(selectedFinish);
+  const accentFinish = getMetalFinish(selectedAccentFinish);
+
+  // Classification only reruns when the model or the overrides change
+  const classification = useMemo(
+    () => classifyRing(nodes, classificationOverrides),
+    [nodes, classificationOverrides]
+  );
+  const {
+    gems: gemNodes,
+    primary: primaryBandNodes,
+    accent: accentBandNodes,
+    hidden: overrideHiddenNodes
+  } = classification;
 
   // Notify parent component if we found accent bands
   useEffect(() => {
@@ -846,22 +741,99 @@ function RingModel({
     }
   }, [accentBandNodes.length, onAccentBandDetected]);
 
+  const gemRoles = classification.gemRoles;
+  const gemMaterials = useMemo(
+    () => Object.fromEntries(
+      GEM_ROLES.map(role => [role, resolveGemMaterial(gemSelections[role])])
+    ) as Record<GemRole, GemMaterial>,
+    [gemSelections]
+  );
+
+  // Notify parent component which stone roles the ring has
+  useEffect(() => {
+    onGemRolesChange?.(gemRoles);
+  }, [gemRoles, onGemRolesChange]);
+
+  // Ring sizing: band parts are reshaped and everything on them moved.
+  // Finishes need texture coordinates, which are added before any part is reshaped.
+  const ringFrame = useMemo(() => {
+    const bands = [...primaryBandNodes, ...accentBandNodes];
+    const frame = getRingFrame(bands);
+    if (frame) bands.forEach(band => ensureRingUVs(band, frame));
+    return frame;
+  }, [primaryBandNodes, accentBandNodes]);
+  const modelInnerDiameter = getModelInnerDiameter(ringFrame);
+  useEffect(() => {
+    onModelInnerDiameterChange?.(modelInnerDiameter);
+  }, [modelInnerDiameter, onModelInnerDiameterChange]);
+
+  const resizedNodes = useMemo(
+    () => ringInnerDiameter
+      ? resizeRing([...primaryBandNodes, ...accentBandNodes], gemNodes, ringFrame, ringInnerDiameter)
+      : {},
+    [primaryBandNodes, accentBandNodes, gemNodes, ringFrame, ringInnerDiameter]
+  );
+  useEffect(() => () => {
+    Object.values(resizedNodes).forEach(({ geometry }) => geometry?.dispose());
+  }, [resizedNodes]);
+  const getGeometry = (node: THREE.Mesh) => resizedNodes[node.name]?.geometry ?? node.geometry;
+  const getPosition = (node: THREE.Mesh) => (resizedNodes[node.name]?.position ?? node.position).toArray();
+
+  // Ignore clicks that end an orbit drag
+  const handleNodeClick = (nodeName: string) => (event: ThreeEvent<MouseEvent>) => {
+    if (!onNodeClick || event.delta > 4) return;
+    event.stopPropagation();
+    onNodeClick(nodeName);
+  };
+  const selectedNode = selectedNodeName
+    ? [...primaryBandNodes, ...accentBandNodes, ...gemNodes, ...overrideHiddenNodes].find(node => node.name === selectedNodeName)
+    : undefined;
+
+  // Stacking: the ring is measured as modelled and moved onto the shared finger axis
+  const extent = useMemo(
+    () => ringFrame ? getRingExtent(ringFrame, [...primaryBandNodes, ...accentBandNodes, ...gemNodes]) : null,
+    [ringFrame, primaryBandNodes, accentBandNodes, gemNodes]
+  );
+  useEffect(() => {
+    onExtentChange?.(extent);
+  }, [extent, onExtentChange]);
+  const groupPosition = useMemo(
+    () => ringFrame && stackOffset !== undefined
+      ? getStackPosition(ringFrame, stackOffset).applyEuler(RING_ROTATION).toArray()
+      : undefined,
+    [ringFrame, stackOffset]
+  );
+
+  // Engraving follows the band when it is resized, and is cut to what fits
+  const currentInnerDiameter = ringInnerDiameter ?? modelInnerDiameter;
+  const engravingText = engraving && currentInnerDiameter !== null
+    ? sanitizeEngravingText(engraving.text, getMaxEngravingLength(currentInnerDiameter)).trim()
+    : "";
+  const engravingPlacement = useMemo(
+    () => ringFrame && currentInnerDiameter !== null
+      ? getEngravingPlacement(ringFrame, gemNodes, currentInnerDiameter)
+      : null,
+    [ringFrame, gemNodes, currentInnerDiameter]
+  );
+
   return (
-    <group ref={ringRef} rotation={[-Math.PI / 2, 0, 0]}>
+    <group ref={ringRef} rotation={RING_ROTATION} position={groupPosition}>
       {/* Primary band nodes */}
       {primaryBandNodes.map((node, index) => (
         visibilityControls[node.name] && (
           <mesh 
             key={`primary-${index}`}
-            geometry={node.geometry}
-            position={node.position.toArray()}
+            geometry={getGeometry(node)}
+            position={getPosition(node)}
             rotation={[node.rotation.x, node.rotation.y, node.rotation.z]}
             scale={node.scale.toArray()}
+            onClick={onNodeClick && handleNodeClick(node.name)}
           >
             <AnimatedStandardMaterial 
               targetColor={selectedMaterial.color}
               metalness={selectedMaterial.metalness}
               roughness={selectedMaterial.roughness}
+              finish={finish}
             />
           </mesh>
         )
@@ -872,15 +844,17 @@ function RingModel({
         visibilityControls[node.name] && (
           <mesh 
             key={`accent-${index}`}
-            geometry={node.geometry}
-            position={node.position.toArray()}
+            geometry={getGeometry(node)}
+            position={getPosition(node)}
             rotation={[node.rotation.x, node.rotation.y, node.rotation.z]}
             scale={node.scale.toArray()}
+            onClick={onNodeClick && handleNodeClick(node.name)}
           >
             <AnimatedStandardMaterial 
               targetColor={selectedAccentMaterial.color}
               metalness={selectedAccentMaterial.metalness}
               roughness={selectedAccentMaterial.roughness}
+              finish={accentFinish}
             />
           </mesh>
         )
@@ -895,94 +869,77 @@ function RingModel({
         return visibilityControls[gem.name] && (
           <Diamond
             key={`gem-${index}-${gem.name?.replace(/[^a-zA-Z0-9]/g, '') || 'unnamed'}`}
-            geometry={gem.geometry}
-            position={gem.position.toArray()}
+            geometry={getGeometry(gem)}
+            position={getPosition(gem)}
             rotation={[gem.rotation.x, gem.rotation.y, gem.rotation.z]}
             scale={gem.scale.toArray()}
             name={gem.name}
             material={gem.material}
+            gem={gemMaterials[gemRoles[gem.name] ?? 'accent']}
+            onClick={onNodeClick && handleNodeClick(gem.name)}
           />
         );
       })}
-    </group>
-  );
-}
 
-// Helper function to determine if one mesh is significantly larger than another
-function isLargerMesh(meshA: THREE.Mesh, meshB: THREE.Mesh): boolean {
-  // Get bounding box volumes as a rough estimate of size
-  const boxA = new THREE.Box3().setFromObject(meshA);
-  const boxB = new THREE.Box3().setFromObject(meshB);
-  
-  const sizeA = new THREE.Vector3();
-  const sizeB = new THREE.Vector3();
-  
-  boxA.getSize(sizeA);
-  boxB.getSize(sizeB);
-  
-  const volumeA = sizeA.x * sizeA.y * sizeA.z;
-  const volumeB = sizeB.x * sizeB.y * sizeB.z;
-  
-  return volumeA > volumeB * 1.5; // Return true if A is 50% larger than B
-}
+      {/* While editing, nodes hidden by an override stay clickable as ghosts */}
+      {onNodeClick && overrideHiddenNodes.map((node, index) => (
+        <mesh
+          key={`hidden-${index}`}
+          geometry={getGeometry(node)}
+          position={getPosition(node)}
+          rotation={[node.rotation.x, node.rotation.y, node.rotation.z]}
+          scale={node.scale.toArray()}
+          onClick={handleNodeClick(node.name)}
+        >
+          <meshBasicMaterial color="#ff4040" transparent opacity={0.25} depthWrite={false} />
+        </mesh>
+      ))}
 
-// Helper function to calculate average vertex count
-function getAverageVertexCount(meshes: THREE.Mesh[]): number {
-  if (meshes.length === 0) return 0;
-  
-  const totalVertices = meshes.reduce((sum, mesh) => 
-    sum + (mesh.geometry?.attributes?.position?.count || 0), 0);
-  
-  return totalVertices / meshes.length;
-}
+      {engravingText && engravingPlacement && (
+        <EngravingText
+          text={engravingText}
+          font={engraving!.font}
+          placement={engravingPlacement}
+          color={selectedMaterial.color}
+        />
+      )}
 
-// Helper function to group nodes by material
-function groupNodesByMaterial(nodes: THREE.Mesh[]): {[key: string]: THREE.Mesh[]} {
-  const groups: {[key: string]: THREE.Mesh[]} = {};
-  
-  for (const node of nodes) {
-    const material = node.material;
-    // Create a key based on material properties
-    const materialKey = material instanceof THREE.Material 
-      ? `${material.uuid}`
-      : 'unknown';
-    
-    if (!groups[materialKey]) {
-      groups[materialKey] = [];
-    }
-    
-    groups[materialKey].push(node);
-  }
-  
-  return groups;
+      {/* Outline of the node selected in the classification editor */}
+      {selectedNode && (
+        <mesh
+          geometry={getGeometry(selectedNode)}
+          position={getPosition(selectedNode)}
+          rotation={[selectedNode.rotation.x, selectedNode.rotation.y, selectedNode.rotation.z]}
+          scale={selectedNode.scale.toArray()}
+          raycast={() => null}
+        >
+          <meshBasicMaterial color="#00ffff" wireframe depthTest={false} />
+        </mesh>
+      )}
+    </group>
+  );
 }
 
-// Helper function to score gem optimality based on vertex count
-// Gems typically have moderate vertex counts (not too low, not too high)
-function getGemOptimalityScore(vertexCount: number): number {
-  // If vertex count is too high (>3000), it's not a gem
-  if (vertexCount > 3000) return 0;
-  
-  // If vertex count is very low (<50), it might be too simple for a gem
-  if (vertexCount < 50) return vertexCount / 10;
-  
-  // All meshes under 2000 vertices are definitely gems, so give high score
-  if (vertexCount < 2000) return 100;
-  
-  // For meshes between 2000-3000, score decreases as vertex count increases
-  return 100 - ((vertexCount - 2000) / 10);
+// Camera move played once the model has loaded
+export interface IntroPan {
+  from: [number, number, number];
+  to: [number, number, number];
+  // Seconds
+  duration: number;
 }
 
-function CameraPanner({ preTestProgress, onComplete }: { preTestProgress: number, onComplete: () => void }) {
+const DEFAULT_INTRO_PAN: IntroPan = { from: [22, 40, 23], to: [22, 31, 23], duration: 2 };
+
+function CameraPanner({ pan, preTestProgress, onComplete }: { pan: IntroPan, preTestProgress: number, onComplete: () => void }) {
   const { camera } = useThree();
   const [startTime, setStartTime] = useState<number | null>(null);
   const [panningComplete, setPanningComplete] = useState(false);
-  const duration = 2; // pan duration in seconds
+  const duration = pan.duration;
   const spinSpeed = 0.1;  // slow spin: 0.1 radians per second
   
   // Create refs for the start and end camera positions
-  const startVec = useRef(new THREE.Vector3(22, 40, 23));
-  const endVec = useRef(new THREE.Vector3(22, 31, 23));
+  const startVec = useRef(new THREE.Vector3(...pan.from));
+  const endVec = useRef(new THREE.Vector3(...pan.to));
   
   // Track if we're in the final smoothing phase
   const isInFinalPhase = useRef(false);
@@ -1028,6 +985,81 @@ function CameraPanner({ preTestProgress, onComplete }: { preTestProgress: number
   return null;
 }
 
+// Frames rendered after everything settles before the viewer counts as ready,
+// so the first one with the final materials and resolution is on the canvas
+const READY_FRAMES = 3;
+
+const VERTICAL_AXIS = new THREE.Vector3(0, 1, 0);
+
+// What can be done with the scene once the viewer is ready
+type SceneControls = Pick<ViewerReadyInfo, 'setCameraAngle' | 'exportImage' | 'exportTurntable'>;
+
+/**
+ * Reports the stages of the scene around it, which has loaded once this
+ * mounts. Calls onReady once the materials have compiled and `settled` holds,
+ * after READY_FRAMES more frames.
+ */
+function SceneStatus({ settled, onStatus, onReady }: {
+  settled: boolean,
+  onStatus: (change: ViewerStatusChange) => void,
+  onReady: (controls: SceneControls) => void
+}) {
+  const { gl, scene, camera } = useThree();
+  const environmentReady = useEnvironment();
+  const [compiled, setCompiled] = useState(false);
+  const frames = useRef(0);
+  const fired = useRef(false);
+
+  useEffect(() => {
+    onStatus({ type: 'model-loaded' });
+  }, [onStatus]);
+
+  useEffect(() => {
+    if (!environmentReady) return;
+    onStatus({ type: 'environment-ready' });
+    let cancelled = false;
+    // Stones switch to their refraction material once the environment is there,
+    // so compile after the frame that renders them
+    const frame = requestAnimationFrame(() => {
+      gl.compileAsync(scene, camera).then(
+        () => {
+          if (cancelled) return;
+          setCompiled(true);
+          onStatus({ type: 'materials-compiled' });
+        },
+        (error) => {
+          if (!cancelled) onStatus({ type: 'error', message: `Compiling materials failed: ${error}` });
+        }
+      );
+    });
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, [environmentReady, gl, scene, camera, onStatus]);
+
+  useFrame(() => {
+    if (!compiled || !settled || fired.current) return;
+    frames.current++;
+    if (frames.current >= READY_FRAMES) {
+      fired.current = true;
+      onStatus({ type: 'ready' });
+      // Angles are measured from where the camera is when the viewer gets ready
+      const restingPosition = camera.position.clone();
+      onReady({
+        setCameraAngle: (angle) => {
+          camera.position.copy(restingPosition).applyAxisAngle(VERTICAL_AXIS, angle);
+          camera.lookAt(0, 0, 0);
+          gl.render(scene, camera);
+        },
+        exportImage: (options) => exportStill(gl, scene, camera, options),
+        exportTurntable: (options) => recordTurntable(gl, scene, camera, options),
+      });
+    }
+  });
+  return null;
+}
+
 // Helper function to darken the color
 function darkenColor(color: string): string {
   const amount = 20; // Adjust this value to control how much darker the color should be
@@ -1050,10 +1082,90 @@ function darkenColor(color: string): string {
   return (usePound ? "#" : "") + (g | (b << 8) | (r << 16)).toString(16);
 }
 
+// Passed to onReady when a model is on screen
+export interface ViewerReadyInfo {
+  category: string;
+  model: string;
+  canvas: HTMLCanvasElement;
+  // Turns the camera around the vertical axis by an angle in radians from
+  // where it was when ready, and renders the frame, for captures
+  setCameraAngle: (angle: number) => void;
+  // Renders the current view off-screen at up to 8K (see lib/imageExport.ts)
+  exportImage: (options: ImageExportOptions) => Promise<Blob>;
+  // Records the camera orbiting the ring into a video or animated WebP (see
+  // lib/turntableExport.ts), with a progress overlay unless controls are hidden
+  exportTurntable: (options: TurntableOptions) => Promise<Blob>;
+}
+
 interface RingViewerProps {
   models: string[];
   selectedModel: string;
   category: string;
+  metadata?: ModelMetadata | null;
+  // State restored from a shared link
+  initialConfig?: ViewerConfig;
+  classificationOverrides?: ClassificationOverrides | null;
+  // Metals the deployment offers (from loadMetals); the defaults when unset
+  metals?: Metal[];
+  // Renders every entry of models on one finger, in order, instead of only
+  // selectedModel. Entries from other categories are given as "<category>/<slug>".
+  stacked?: boolean;
+  // Rings that can be added to the stack; the stack picker is hidden without them
+  stackOptions?: StackOption[];
+  // Models of the category to switch between without leaving the viewer, in order
+  categoryModels?: ModelSwitcherOption[];
+  // What the deployment's commerce adapter does with a configured ring; no checkout button when unset
+  commerceAction?: CommerceAction;
+  // Shows a live price estimate, worked out on the server from the current choices
+  priceEstimates?: boolean;
+  // Shows an enquiry form that sends the ring as configured, and a snapshot of it, to sales
+  leadCapture?: boolean;
+  // Shows an "Export image" button for high-resolution stills of the current view
+  imageExport?: boolean;
+  // Shows an "Export turntable" button for spinning clips of the ring
+  turntableExport?: boolean;
+  // Presentation mode for embeds and automated captures: no panels, buttons,
+  // overlays or keyboard shortcuts, only the ring
+  hideControls?: boolean;
+  autoRotate?: boolean;
+  // Seconds per turn when auto-rotating
+  autoRotateSeconds?: number;
+  // Camera move once the model has loaded; false starts at its end position
+  introPan?: boolean | Partial<IntroPan>;
+  // Called once the model has loaded, the intro pan has finished and the
+  // result has been rendered, and again after switching models
+  onReady?: (info: ViewerReadyInfo) => void;
+  // Called for every stage the viewer goes through and every error, which
+  // are also dispatched on window (see lib/viewerStatus.ts)
+  onStatus?: (event: ViewerStatusEvent) => void;
+  // Called with the new slug when switching models from the category strip,
+  // so the page's own links can follow
+  onModelSwitch?: (slug: string) => void;
+  // Renders at this pixel ratio and in full quality, skipping the performance
+  // test that lowers both on slow devices, e.g. for captures with software rendering
+  pixelRatio?: number;
+}
+
+type BandRole = 'primary' | 'accent';
+
+// Metal and finish choices of a ring stacked with the main one; unset choices follow the main ring
+interface StackedBandSelection {
+  metal?: string;
+  accentMetal?: string;
+  finishes?: Partial<Record<BandRole, string>>;
+}
+
+// Restores shared gem selections; otherwise the metadata's gems, listed center stone first
+export function getDefaultGemSelections(
+  shared: ViewerConfig['gems'],
+  metadata?: ModelMetadata | null
+): Record<GemRole, GemSelection> {
+  return Object.fromEntries(GEM_ROLES.map((role, index) => {
+    const selection = shared?.[role];
+    if (selection && isGemName(selection.type)) return [role, selection];
+    const type = metadata?.gems?.[index]?.type;
+    return [role, { type: isGemName(type) ? type : DEFAULT_GEM }];
+  })) as Record<GemRole, GemSelection>;
 }
 
 // Enhance the SafeMeshRefractionMaterial component
@@ -1144,7 +1256,7 @@ function SafeMeshRefractionMaterial(props: MeshRefractionMaterialProps) {
     console.log(`[${materialKey}] Using fallback material for ${gemType} due to error`);
     
     // Use our utility function to create the fallback material
-    return createFallbackMaterial(isBaguette, "fallback", materialKey);
+    return createFallbackMaterial(isBaguette, "fallback", materialKey, rest.color, rest.ior);
   }
   
   // Otherwise, try to use the refraction material with error handling
@@ -1166,7 +1278,7 @@ function SafeMeshRefractionMaterial(props: MeshRefractionMaterialProps) {
     
     // Use same utility function for consistency
     const isBaguette = gemType === "baguette";
-    return createFallbackMaterial(isBaguette, "fallback_catch", materialKey);
+    return createFallbackMaterial(isBaguette, "fallback_catch", materialKey, rest.color, rest.ior);
   }
 }
 
@@ -1227,7 +1339,31 @@ async function handleZipFile(file: File): Promise<{ url: string; h: number; v: n
 }
 
 // Rename the main component to RingViewerComponent
-function RingViewerComponent({ models, selectedModel, category }: RingViewerProps) {
+function RingViewerComponent({
+  models,
+  selectedModel: initialModel,
+  category,
+  metadata: initialMetadata,
+  initialConfig = {},
+  classificationOverrides,
+  metals = DEFAULT_METALS,
+  stacked = false,
+  stackOptions,
+  categoryModels,
+  commerceAction,
+  priceEstimates = false,
+  leadCapture = false,
+  imageExport = false,
+  turntableExport = false,
+  hideControls = false,
+  autoRotate = false,
+  autoRotateSeconds = 30,
+  introPan = true,
+  onReady,
+  onStatus,
+  onModelSwitch,
+  pixelRatio
+}: RingViewerProps) {
   const isMobile = typeof window !== "undefined" && window.innerWidth < 768;
   const { factor } = usePerformance();
   
@@ -1236,56 +1372,150 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
   const [showStats, setShowStats] = useState(false);
   const [preTestProgress, setPreTestProgress] = useState<number>(0);
   const [initialFps, setInitialFps] = useState<number | null>(null);
-  const [cameraPannerComplete, setCameraPannerComplete] = useState(false);
-  const [selectedBandColor, setSelectedBandColor] = useState("Yellow Gold");
-  const [selectedAccentBandColor, setSelectedAccentBandColor] = useState("White Gold");
+  // The pan only plays when the viewer opens
+  const [pan] = useState<IntroPan | null>(
+    () => introPan ? { ...DEFAULT_INTRO_PAN, ...(introPan === true ? {} : introPan) } : null
+  );
+  // A shared camera angle replaces the intro pan
+  const [cameraPannerComplete, setCameraPannerComplete] = useState(!!initialConfig.camera || !pan);
+  // Models switched to from the category strip replace the one the page was opened with
+  const [selectedModel, setSelectedModel] = useState(initialModel);
+  const metadata = selectedModel === initialModel
+    ? initialMetadata
+    : categoryModels?.find(option => option.slug === selectedModel)?.metadata ?? null;
+  const bandOptions = useMemo(() => getBandOptions(metals, metadata), [metals, metadata]);
+  const [selectedBandColor, setSelectedBandColor] = useState(
+    () => getDefaultBand(bandOptions, initialConfig.metal, metadata?.defaultMetal, DEFAULT_METAL)
+  );
+  const [selectedAccentBandColor, setSelectedAccentBandColor] = useState(
+    () => getDefaultBand(bandOptions, initialConfig.accentMetal, "White Gold")
+  );
+  const [selectedFinishes, setSelectedFinishes] = useState<Record<BandRole, string>>(() => ({
+    primary: getMetalFinish(initialConfig.finish).name,
+    accent: getMetalFinish(initialConfig.accentFinish).name,
+  }));
+  const [hiddenNodes, setHiddenNodes] = useState<string[]>(initialConfig.hiddenNodes ?? []);
+  const [gemSelections, setGemSelections] = useState(
+    () => getDefaultGemSelections(initialConfig.gems, metadata)
+  );
+  const [gemRoles, setGemRoles] = useState<Record<string, GemRole>>({});
+  const [ringSize, setRingSize] = useState<RingSize | null>(initialConfig.ringSize ?? null);
+  const [modelInnerDiameter, setModelInnerDiameter] = useState<number | null>(null);
+  const [engraving, setEngraving] = useState<Engraving>(
+    () => initialConfig.engraving ?? { text: "", font: DEFAULT_ENGRAVING_FONT }
+  );
   const [showBandSelector, setShowBandSelector] = useState(true);
   const [hasAccentBand, setHasAccentBand] = useState(false);
-  const [activeBandSelection, setActiveBandSelection] = useState<'primary' | 'accent'>('primary');
+  const [activeBandSelection, setActiveBandSelection] = useState<BandRole>('primary');
+  // Rings on the finger, in order, as "<category>/<slug>"; just the selected model unless stacking
+  const getStackKey = useCallback(
+    (model: string) => model.includes('/') ? model : `${category}/${model}`,
+    [category]
+  );
+  const mainRing = getStackKey(selectedModel);
+  const [stack, setStack] = useState<string[]>(() => {
+    const rings = stacked ? models.map(getStackKey) : [];
+    return rings.includes(mainRing) ? Array.from(new Set(rings)) : [mainRing, ...rings];
+  });
+  // The ring the band options apply to
+  const [activeRing, setActiveRing] = useState(mainRing);
+  const [stackedBands, setStackedBands] = useState<Record<string, StackedBandSelection>>(() =>
+    Object.fromEntries((initialConfig.stack ?? [])
+      .filter(ring => ring.metal)
+      .map(ring => [getStackKey(ring.model), { metal: ring.metal }]))
+  );
+  const [stackExtents, setStackExtents] = useState<Record<string, RingExtent | null>>({});
+  const [stackedAccentBands, setStackedAccentBands] = useState<Record<string, boolean>>({});
+  const [stackedGemRoles, setStackedGemRoles] = useState<Record<string, GemRole[]>>({});
+  const [priceEstimate, setPriceEstimate] = useState<Estimate | null>(null);
+  const [priceLoading, setPriceLoading] = useState(false);
+  const [sceneControls, setSceneControls] = useState<SceneControls | null>(null);
   const [glErrors, setGlErrors] = useState<string[]>([]);
   const [diamondErrors, setDiamondErrors] = useState<string[]>([]);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [overrides, setOverrides] = useState<ClassificationOverrides>(
+    () => classificationOverrides ?? { nodes: {}, gemRoles: {} }
+  );
+  const [editingClassification, setEditingClassification] = useState(false);
+  const [selectedNodeName, setSelectedNodeName] = useState<string | null>(null);
   const [webGLInfo, setWebGLInfo] = useState<{[key: string]: any}>({});
   const [capturePhotosphere, setCapturePhotosphere] = useState(false);
   const [viewingPhotosphere, setViewingPhotosphere] = useState(false);
   const [photosphereImages, setPhotosphereImages] = useState<{url: string, h: number, v: number}[]>([]);
+  // Frames of the turntable being recorded, null when not recording
+  const [turntableProgress, setTurntableProgress] = useState<{ frame: number, frames: number } | null>(null);
   
   // Refs
   const orbitControlsRef = useRef<any>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Reports to onStatus and window; kept stable so scene components report once
+  const statusContext = useRef({ category, model: selectedModel, onStatus });
+  statusContext.current = { category, model: selectedModel, onStatus };
+  const reportStatus = useCallback((change: ViewerStatusChange, model = statusContext.current.model) => {
+    const event = { ...change, category: statusContext.current.category, model, time: performance.now() };
+    publishViewerStatus(event);
+    statusContext.current.onStatus?.(event);
+  }, []);
+
+  useEffect(() => {
+    reportStatus({ type: 'loading' });
+  }, [reportStatus]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleContextLost = () => reportStatus({ type: 'error', message: 'The WebGL context was lost' });
+    canvas.addEventListener('webglcontextlost', handleContextLost);
+    return () => canvas.removeEventListener('webglcontextlost', handleContextLost);
+  }, [reportStatus]);
 
   // Function to determine the model path based on the model name
-  const getModelPath = useCallback((model: string) => {
+  const getModelPath = useCallback((ring: string) => {
+    // Stacked rings can come from other categories, as "<category>/<slug>"
+    const separator = ring.lastIndexOf('/');
+    const modelCategory = encodeURIComponent(separator >= 0 ? ring.slice(0, separator) : category);
+    const model = encodeURIComponent(ring.slice(separator + 1));
+    // Models without a category are at the root of public/3d
+    const folder = modelCategory ? `/3d/${modelCategory}` : '/3d';
+
     if (model.toLowerCase().endsWith('.glb') || model.toLowerCase().endsWith('.3dm')) {
-      return `/3d/${category}/${model}`;
+      return `${folder}/${model}`;
     }
     
     if (model.toLowerCase() === '3dm') {
-      console.log(`Loading 3DM model: /3d/${category}/${model}.3dm`);
-      return `/3d/${category}/${model}.3dm`;
+      console.log(`Loading 3DM model: ${folder}/${model}.3dm`);
+      return `${folder}/${model}.3dm`;
     }
     
-    const modelPath = `/3d/${category}/${model}`;
+    const modelPath = `${folder}/${model}`;
     console.log(`Loading model: ${modelPath}.glb`);
     return `${modelPath}.glb`;
   }, [category]);
 
   // Computed values
-  const lockedLowFps = initialFps !== null ? initialFps < 30 : false;
-  const computedDpr = lockedLowFps ? 0.8 : (factor < 0.5 ? 1 : ([1, 2] as [number, number]));
+  const lockedLowFps = initialFps !== null && pixelRatio === undefined ? initialFps < 30 : false;
+  const computedDpr = pixelRatio ?? (lockedLowFps ? 0.8 : (factor < 0.5 ? 1 : ([1, 2] as [number, number])));
   const effectiveEnvironmentIntensity = lockedLowFps ? 1.5 : 2.2;
 
-  // Band color options
-  const bandOptions = useMemo(() => [
-    { name: "Yellow Gold", color: "#ffdc73" },
-    { name: "Rose Gold", color: "#B76E79" },
-    { name: "White Gold", color: "#E8E8E8" },
-    { name: "Platinum", color: "#E5E4E2" }
-  ], []);
+  // Metals and finishes of each ring in the stack; rings stacked with the main one
+  // start out in its metals, and any metal is offered for them
+  const isMainRingActive = activeRing === mainRing;
+  const getStackedMetals = useCallback((ring: string): Record<BandRole, string> => ({
+    primary: stackedBands[ring]?.metal ?? selectedBandColor,
+    accent: stackedBands[ring]?.accentMetal ?? selectedAccentBandColor,
+  }), [stackedBands, selectedBandColor, selectedAccentBandColor]);
+  const getStackedFinishes = useCallback((ring: string): Record<BandRole, string> => ({
+    ...selectedFinishes,
+    ...stackedBands[ring]?.finishes,
+  }), [stackedBands, selectedFinishes]);
+  const activeMetals = getStackedMetals(activeRing);
+  const activeFinishes = getStackedFinishes(activeRing);
+  const activeHasAccentBand = isMainRingActive ? hasAccentBand : !!stackedAccentBands[activeRing];
+  const activeBandOptions = isMainRingActive ? bandOptions : metals;
 
   // Current selected color based on active band
-  const currentSelectedColor = activeBandSelection === 'primary' 
-    ? selectedBandColor 
-    : selectedAccentBandColor;
+  const currentSelectedColor = activeMetals[activeBandSelection];
 
   // Effect for diamond errors
   useEffect(() => {
@@ -1293,6 +1523,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
       const error = event.detail?.message || "Unknown diamond error";
       console.log("Diamond error event received:", error);
       setDiamondErrors(prev => [...prev, error]);
+      reportStatus({ type: 'error', message: error });
     };
 
     window.addEventListener('diamond-error', handleDiamondError);
@@ -1310,7 +1541,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
       window.removeEventListener('diamond-error', handleDiamondError);
       clearInterval(interval);
     };
-  }, []);
+  }, [reportStatus]);
 
   // Effect for performance measurement
   useEffect(() => {
@@ -1338,6 +1569,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
 
   // Effect for keyboard shortcuts
   useEffect(() => {
+    if (hideControls) return;
     const handleKeyPress = (event: KeyboardEvent) => {
       if (event.code === 'Space') {
         setShowLeva(prev => !prev);
@@ -1348,28 +1580,253 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, []);
+  }, [hideControls]);
 
   // Handlers
   const handleAccentBandDetected = useCallback((detected: boolean) => {
     setHasAccentBand(detected);
-    if (!detected) {
-      setActiveBandSelection('primary');
-    }
+  }, []);
+
+  useEffect(() => {
+    if (!activeHasAccentBand) setActiveBandSelection('primary');
+  }, [activeHasAccentBand]);
+
+  // Stone roles the rings have, in selector order; stacked rings share the main ring's stones
+  const presentGemRoles = useMemo(
+    () => GEM_ROLES.filter(role =>
+      Object.values(gemRoles).includes(role) ||
+      stack.some(ring => ring !== mainRing && stackedGemRoles[ring]?.includes(role))
+    ),
+    [gemRoles, stack, mainRing, stackedGemRoles]
+  );
+
+  const handleGemSelection = useCallback((role: GemRole, selection: GemSelection) => {
+    setGemSelections(prev => ({ ...prev, [role]: selection }));
   }, []);
 
   const handleColorSelection = useCallback((colorName: string) => {
-    if (activeBandSelection === 'primary') {
+    if (!isMainRingActive) {
+      const key = activeBandSelection === 'primary' ? 'metal' : 'accentMetal';
+      setStackedBands(prev => ({ ...prev, [activeRing]: { ...prev[activeRing], [key]: colorName } }));
+    } else if (activeBandSelection === 'primary') {
       setSelectedBandColor(colorName);
     } else {
       setSelectedAccentBandColor(colorName);
     }
-  }, [activeBandSelection]);
+  }, [activeBandSelection, activeRing, isMainRingActive]);
+
+  const handleFinishSelection = useCallback((finishName: string) => {
+    if (!isMainRingActive) {
+      setStackedBands(prev => ({
+        ...prev,
+        [activeRing]: { ...prev[activeRing], finishes: { ...prev[activeRing]?.finishes, [activeBandSelection]: finishName } }
+      }));
+      return;
+    }
+    setSelectedFinishes(prev => ({ ...prev, [activeBandSelection]: finishName }));
+  }, [activeBandSelection, activeRing, isMainRingActive]);
+
+  const handleStackAdd = useCallback((ring: string) => {
+    setStack(prev => prev.includes(ring) || prev.length >= MAX_STACKED_RINGS ? prev : [...prev, ring]);
+    setActiveRing(ring);
+  }, []);
+
+  const handleStackRemove = useCallback((ring: string) => {
+    setStack(prev => prev.filter(candidate => candidate !== ring));
+    setActiveRing(prev => prev === ring ? mainRing : prev);
+  }, [mainRing]);
+
+  const handleStackMove = useCallback((ring: string, direction: -1 | 1) => {
+    setStack(prev => {
+      const index = prev.indexOf(ring);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const hasSwitchedModel = useRef(false);
+
+  // Switches models in place, so the FPS test and the intro pan don't run again and
+  // the camera stays where it is. Metals carry over when the new model offers them.
+  const handleModelSwitch = useCallback((slug: string) => {
+    const option = categoryModels?.find(candidate => candidate.slug === slug);
+    if (!option || slug === selectedModel) return;
+    const nextRing = getStackKey(slug);
+    const nextBandOptions = getBandOptions(metals, option.metadata);
+
+    reportStatus({ type: 'loading' }, slug);
+    // No exports of a half-loaded model
+    setSceneControls(null);
+    setSelectedModel(slug);
+    setStack(prev => prev.filter(ring => ring !== nextRing).map(ring => ring === mainRing ? nextRing : ring));
+    setActiveRing(prev => prev === mainRing || prev === nextRing ? nextRing : prev);
+    setSelectedBandColor(prev => getDefaultBand(nextBandOptions, prev, option.metadata?.defaultMetal, DEFAULT_METAL));
+    setSelectedAccentBandColor(prev => getDefaultBand(nextBandOptions, prev, "White Gold"));
+    setOverrides(option.classificationOverrides ?? { nodes: {}, gemRoles: {} });
+    setHiddenNodes([]);
+    setGemRoles({});
+    setHasAccentBand(false);
+    setModelInnerDiameter(null);
+    setSelectedNodeName(null);
+    hasSwitchedModel.current = true;
+    onModelSwitch?.(slug);
+  }, [categoryModels, selectedModel, getStackKey, metals, mainRing, reportStatus, onModelSwitch]);
+
+  // Loads the models either side of the current one in the background
+  useEffect(() => {
+    if (!categoryModels || categoryModels.length < 2) return;
+    const index = categoryModels.findIndex(option => option.slug === selectedModel);
+    if (index < 0) return;
+    [-1, 1].forEach(offset => {
+      const neighbour = categoryModels[(index + offset + categoryModels.length) % categoryModels.length];
+      const path = getModelPath(neighbour.slug);
+      if (!is3dmPath(path)) useGLTF.preload(path);
+    });
+  }, [categoryModels, selectedModel, getModelPath]);
+
+  // Callbacks for each ring in the stack, kept stable so the rings don't re-run their effects
+  const stackCallbacks = useMemo(() => Object.fromEntries(stack.map(ring => [ring, {
+    onExtentChange: (extent: RingExtent | null) => setStackExtents(prev =>
+      prev[ring]?.min === extent?.min && prev[ring]?.max === extent?.max ? prev : { ...prev, [ring]: extent }
+    ),
+    onAccentBandDetected: (detected: boolean) => setStackedAccentBands(prev =>
+      prev[ring] === detected ? prev : { ...prev, [ring]: detected }
+    ),
+    onGemRolesChange: (roles: Record<string, GemRole>) => setStackedGemRoles(prev => ({
+      ...prev,
+      [ring]: Array.from(new Set(Object.values(roles)))
+    })),
+  }])), [stack]);
+
+  // Where each ring sits along the finger; a single ring stays where it was modelled
+  const stackOffsets = useMemo(
+    () => stack.length > 1 ? getStackOffsets(stack.map(ring => stackExtents[ring] ?? null)) : null,
+    [stack, stackExtents]
+  );
+
+  // The customer's choices, as restored by shared links and sent with quotes and carts
+  const getViewerConfig = useCallback((): ViewerConfig => ({
+    metal: selectedBandColor,
+    accentMetal: hasAccentBand ? selectedAccentBandColor : undefined,
+    finish: selectedFinishes.primary !== DEFAULT_FINISH ? selectedFinishes.primary : undefined,
+    accentFinish: hasAccentBand && selectedFinishes.accent !== DEFAULT_FINISH ? selectedFinishes.accent : undefined,
+    gems: Object.fromEntries(presentGemRoles.map(role => [role, gemSelections[role]])),
+    ringSize: ringSize ?? undefined,
+    engraving: engraving.text.trim() ? engraving : undefined,
+    stack: stack.length > 1
+      ? stack.map(ring => ({ model: ring, metal: ring === mainRing ? undefined : stackedBands[ring]?.metal }))
+      : undefined,
+  }), [selectedBandColor, selectedAccentBandColor, selectedFinishes, hasAccentBand, gemSelections, presentGemRoles, ringSize, engraving, stack, mainRing, stackedBands]);
+
+  // Asks the server for a new estimate once the choices settle, e.g. after clicking through metals
+  const configQuery = useMemo(() => serializeViewerConfig(getViewerConfig()), [getViewerConfig]);
+
+  // Once switched, the address follows the model and the choices, as a shared link
+  // would, so a reload restores both; the router's own history state is kept
+  useEffect(() => {
+    if (!hasSwitchedModel.current) return;
+    const path = `/${encodeURIComponent(category)}/${encodeURIComponent(selectedModel)}`;
+    window.history.replaceState(window.history.state, '', configQuery ? `${path}?${configQuery}` : path);
+  }, [category, selectedModel, configQuery]);
+  useEffect(() => {
+    if (!priceEstimates) return;
+    const controller = new AbortController();
+    setPriceLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/v1/models/${encodeURIComponent(category)}/${encodeURIComponent(selectedModel)}/price?${configQuery}`,
+          { signal: controller.signal }
+        );
+        const body = await response.json() as PriceEstimateResponse | ApiError;
+        setPriceEstimate('error' in body ? null : body.estimate);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Error estimating price:", error);
+        setPriceEstimate(null);
+      }
+      setPriceLoading(false);
+    }, 250);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [priceEstimates, category, selectedModel, configQuery]);
+
+  // The current choices plus the camera angle and hidden nodes, i.e. everything the customer sees
+  const getViewQuery = useCallback(() => {
+    const cameraPosition = orbitControlsRef.current?.object?.position as THREE.Vector3 | undefined;
+    return serializeViewerConfig({
+      ...getViewerConfig(),
+      camera: cameraPosition ? [cameraPosition.x, cameraPosition.y, cameraPosition.z] : undefined,
+      hiddenNodes,
+    });
+  }, [getViewerConfig, hiddenNodes]);
+
+  // Builds a link to this model that restores the current view
+  const getShareUrl = useCallback(
+    () => `${window.location.origin}${window.location.pathname}?${getViewQuery()}`,
+    [getViewQuery]
+  );
+
+  const handleClassificationChange = useCallback((nodeName: string, role: NodeRole | null) => {
+    setOverrides(prev => {
+      const nodes = { ...prev.nodes };
+      if (role) {
+        nodes[nodeName] = role;
+      } else {
+        delete nodes[nodeName];
+      }
+      return { ...prev, nodes };
+    });
+  }, []);
+
+  const handleGemRoleChange = useCallback((nodeName: string, role: GemRole | null) => {
+    setOverrides(prev => {
+      const gemRoles = { ...prev.gemRoles };
+      if (role) {
+        gemRoles[nodeName] = role;
+      } else {
+        delete gemRoles[nodeName];
+      }
+      return { ...prev, gemRoles };
+    });
+  }, []);
+
+  const handleSceneReady = useCallback((controls: SceneControls) => {
+    const viewerControls: SceneControls = {
+      ...controls,
+      exportTurntable: async (options) => {
+        setTurntableProgress({ frame: 0, frames: 0 });
+        // Lets the orbit controls turn off before the camera starts moving
+        await new Promise(resolve => requestAnimationFrame(resolve));
+        try {
+          return await controls.exportTurntable({
+            ...options,
+            onProgress: (frame, frames) => {
+              setTurntableProgress({ frame, frames });
+              options.onProgress?.(frame, frames);
+            },
+          });
+        } finally {
+          setTurntableProgress(null);
+        }
+      },
+    };
+    setSceneControls(viewerControls);
+    if (onReady && canvasRef.current) {
+      onReady({ category, model: selectedModel, canvas: canvasRef.current, ...viewerControls });
+    }
+  }, [onReady, category, selectedModel]);
 
   const handleGlError = useCallback((error: string) => {
     console.error("WebGL Error:", error);
     setGlErrors(prev => [...prev, error]);
-  }, []);
+    reportStatus({ type: 'error', message: error });
+  }, [reportStatus]);
 
   const handleReturnTo3D = useCallback(() => {
     setViewingPhotosphere(false);
@@ -1434,7 +1891,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
   return (
     <div style={{ width: "100vw", height: "100vh", position: "relative" }}>
       {/* Unified Band color selector */}
-      <div
+      {!hideControls && <div
         style={{
           position: "absolute",
           ...(isMobile 
@@ -1450,7 +1907,10 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
                 bottom: "20px",
                 left: "20px",
                 width: "260px",
-                padding: "20px"
+                padding: "20px",
+                // The stone and size selectors can make the panel taller than short windows
+                maxHeight: "calc(100vh - 40px)",
+                overflowY: "auto"
               }
           ),
           background: "#dcd1c7",
@@ -1462,6 +1922,49 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
           transition: "transform 0.3s ease"
         }}
       >
+        {/* Product name and description from the model's metadata */}
+        {!isMobile && metadata?.name && (
+          <div style={{ marginBottom: "12px" }}>
+            <h1
+              style={{
+                margin: 0,
+                fontSize: "1.1em",
+                fontWeight: "600"
+              }}
+            >
+              {metadata.name}
+            </h1>
+            {metadata.description && (
+              <p style={{ margin: "4px 0 0", fontSize: "0.85em", color: "#5c4a3a" }}>
+                {metadata.description}
+              </p>
+            )}
+          </div>
+        )}
+
+        {priceEstimates && (
+          <PriceEstimate estimate={priceEstimate} loading={priceLoading} compact={isMobile} />
+        )}
+
+        {(stackOptions?.length || stack.length > 1) && (
+          <RingStackSelector
+            rings={stack.map(ring => ({
+              model: ring,
+              name: stackOptions?.find(option => option.model === ring)?.name ??
+                getDisplayName(ring.slice(ring.lastIndexOf('/') + 1), ring === mainRing ? metadata : null)
+            }))}
+            activeRing={activeRing}
+            mainRing={mainRing}
+            options={stackOptions ?? []}
+            maxRings={MAX_STACKED_RINGS}
+            onSelect={setActiveRing}
+            onAdd={handleStackAdd}
+            onRemove={handleStackRemove}
+            onMove={handleStackMove}
+            compact={isMobile}
+          />
+        )}
+
         {/* For non-mobile devices */}
         {!isMobile && (
           <div 
@@ -1504,7 +2007,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
             </div>
             
             {/* Band toggle selector in a separate row for non-mobile */}
-            {hasAccentBand && (
+            {activeHasAccentBand && (
               <div 
                 style={{ 
                   display: "flex", 
@@ -1565,7 +2068,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
         {/* For mobile devices */}
         {isMobile && (
           <div style={{ width: "100%" }}>
-            {hasAccentBand && (
+            {activeHasAccentBand && (
               <div 
                 style={{ 
                   display: "flex", 
@@ -1620,9 +2123,9 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
             }}>
               {/* Determine the current selected band name and its color hex */}
               {(() => {
-                const currentSelectedName = activeBandSelection === 'primary' ? selectedBandColor : selectedAccentBandColor;
-                const currentOption = bandOptions.find(band => band.name === currentSelectedName);
-                const currentColorHex = currentOption ? currentOption.color : '#000';
+                const currentSelectedName = currentSelectedColor;
+                const currentOption = activeBandOptions.find(band => band.name === currentSelectedName);
+                const currentColorHex = currentOption ? currentOption.swatch : '#000';
                 return (
                   <>
                     <div style={{
@@ -1659,7 +2162,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
             alignItems: isMobile ? "center" : "stretch"
           }}
         >
-          {bandOptions.map((band) => (
+          {activeBandOptions.map((band) => (
             <button
               key={band.name}
               onClick={() => handleColorSelection(band.name)}
@@ -1681,9 +2184,9 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
                       margin: "8px 0"
                     }
                 ),
-                background: currentSelectedColor === band.name ? band.color : "transparent",
+                background: currentSelectedColor === band.name ? band.swatch : "transparent",
                 color: currentSelectedColor === band.name ? "#fff" : "#000",
-                border: `2px solid ${currentSelectedColor === band.name ? darkenColor(band.color) : band.color}`,
+                border: `2px solid ${currentSelectedColor === band.name ? darkenColor(band.swatch) : band.swatch}`,
                 borderRadius: "8px",
                 cursor: "pointer",
                 transition: "all 0.3s ease"
@@ -1695,7 +2198,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
                     width: "100%",
                     height: "100%",
                     borderRadius: "4px",
-                    background: band.color
+                    background: band.swatch
                   }}
                 />
               ) : (
@@ -1705,23 +2208,108 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
                       width: "16px",
                       height: "16px",
                       borderRadius: "50%",
-                      background: band.color,
+                      background: band.swatch,
                       marginRight: "8px",
                       border: "1px solid #fff"
                     }}
                   />
-                  {band.name}
+                  {formatMetalName(band)}
                 </>
               )}
             </button>
           ))}
         </div>
-      </div>
+
+        {showBandSelector && (
+          <FinishSelector
+            options={METAL_FINISHES}
+            selectedFinish={activeFinishes[activeBandSelection]}
+            onSelect={handleFinishSelection}
+            compact={isMobile}
+          />
+        )}
+
+        {presentGemRoles.length > 0 && (
+          <GemSelector
+            options={GEM_MATERIALS}
+            roles={presentGemRoles}
+            selections={gemSelections}
+            onSelect={handleGemSelection}
+            compact={isMobile}
+          />
+        )}
+
+        {modelInnerDiameter !== null && (
+          <RingSizeSelector
+            ringSize={ringSize}
+            modelInnerDiameter={modelInnerDiameter}
+            onChange={setRingSize}
+            compact={isMobile}
+          />
+        )}
+
+        {modelInnerDiameter !== null && (
+          <EngravingInput
+            engraving={engraving}
+            maxLength={getMaxEngravingLength(ringSize?.innerDiameter ?? modelInnerDiameter)}
+            onChange={setEngraving}
+            compact={isMobile}
+          />
+        )}
+
+        {commerceAction && (
+          <CommerceButton
+            action={commerceAction}
+            category={category}
+            slug={selectedModel}
+            getConfig={() => serializeViewerConfig(getViewerConfig())}
+            compact={isMobile}
+          />
+        )}
+
+        {leadCapture && (
+          <LeadForm
+            category={category}
+            slug={selectedModel}
+            getConfig={getViewQuery}
+            getCanvas={() => canvasRef.current}
+            compact={isMobile}
+          />
+        )}
+
+        {imageExport && (
+          <ImageExportButton
+            exportImage={sceneControls?.exportImage ?? null}
+            fileName={selectedModel}
+            getViewAspect={() => {
+              const canvas = canvasRef.current;
+              return canvas && canvas.height ? canvas.width / canvas.height : 1;
+            }}
+            compact={isMobile}
+          />
+        )}
+
+        {turntableExport && (
+          <TurntableExportButton
+            exportTurntable={sceneControls?.exportTurntable ?? null}
+            fileName={selectedModel}
+            getViewAspect={() => {
+              const canvas = canvasRef.current;
+              return canvas && canvas.height ? canvas.width / canvas.height : 1;
+            }}
+            recording={!!turntableProgress}
+            compact={isMobile}
+          />
+        )}
+
+        <ShareLinkButton getUrl={getShareUrl} compact={isMobile} />
+      </div>}
 
       {/* 3D Canvas */}
       <Canvas 
+        ref={canvasRef}
         dpr={computedDpr}
-        camera={{ position: [22, 40, 23], fov: 50 }}
+        camera={{ position: initialConfig.camera ?? (pan ? pan.from : DEFAULT_INTRO_PAN.to), fov: 50 }}
         gl={{ 
           antialias: !(lockedLowFps),
           precision: "highp",
@@ -1832,12 +2420,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
         }}
       >
         <Suspense fallback={null}>
-          <Environment 
-            files="/studio.hdr" 
-            background={false}
-            environmentIntensity={effectiveEnvironmentIntensity}
-            blur={0}
-          />
+          <RingEnvironment intensity={effectiveEnvironmentIntensity} />
           
           <PerformanceMonitor
             bounds={(fps) => [50, 60]}
@@ -1845,7 +2428,7 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
             iterations={5}
             step={0.2}
             staticFactor={
-              initialFps === null
+              initialFps === null || pixelRatio !== undefined
                 ? 1
                 : initialFps < 30
                   ? 0.3
@@ -1857,11 +2440,52 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
             <RingModel 
               key={selectedModel} 
               modelPath={getModelPath(selectedModel)} 
+              metals={metals}
               selectedBandColor={selectedBandColor}
               selectedAccentBandColor={selectedAccentBandColor}
+              selectedFinish={selectedFinishes.primary}
+              selectedAccentFinish={selectedFinishes.accent}
               onAccentBandDetected={handleAccentBandDetected}
+              gemSelections={gemSelections}
+              onGemRolesChange={setGemRoles}
+              ringInnerDiameter={ringSize?.innerDiameter}
+              onModelInnerDiameterChange={setModelInnerDiameter}
+              engraving={engraving}
+              initialHiddenNodes={selectedModel === initialModel ? initialConfig.hiddenNodes : undefined}
+              onHiddenNodesChange={setHiddenNodes}
+              classificationOverrides={overrides}
+              onNodeClick={editingClassification ? setSelectedNodeName : undefined}
+              selectedNodeName={editingClassification ? selectedNodeName : null}
+              stackOffset={stackOffsets?.[stack.indexOf(mainRing)]}
+              onExtentChange={stackCallbacks[mainRing]?.onExtentChange}
             />
+            {stack.map((ring, index) => ring !== mainRing && (
+              // Each stacked ring loads on its own, without holding back the others
+              <Suspense key={ring} fallback={null}>
+                <RingModel
+                  modelPath={getModelPath(ring)}
+                  metals={metals}
+                  selectedBandColor={getStackedMetals(ring).primary}
+                  selectedAccentBandColor={getStackedMetals(ring).accent}
+                  selectedFinish={getStackedFinishes(ring).primary}
+                  selectedAccentFinish={getStackedFinishes(ring).accent}
+                  onAccentBandDetected={stackCallbacks[ring]?.onAccentBandDetected}
+                  gemSelections={gemSelections}
+                  onGemRolesChange={stackCallbacks[ring]?.onGemRolesChange}
+                  ringInnerDiameter={ringSize?.innerDiameter}
+                  stackOffset={stackOffsets?.[index]}
+                  onExtentChange={stackCallbacks[ring]?.onExtentChange}
+                />
+              </Suspense>
+            ))}
           </PerformanceMonitor>
+          {/* Mounts once the environment and main ring have loaded */}
+          <SceneStatus
+            key={selectedModel}
+            settled={cameraPannerComplete && initialFps !== null}
+            onStatus={reportStatus}
+            onReady={handleSceneReady}
+          />
         </Suspense>
 
         <OrbitControls 
@@ -1869,13 +2493,17 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
           enablePan={false} 
           minDistance={15} 
           maxDistance={50} 
-          enabled={cameraPannerComplete && !capturePhotosphere} 
+          enabled={cameraPannerComplete && !capturePhotosphere && !turntableProgress} 
+          autoRotate={autoRotate && cameraPannerComplete && !capturePhotosphere && !turntableProgress}
+          // OrbitControls' speed 1 turns once a minute
+          autoRotateSpeed={60 / autoRotateSeconds}
         />
         
         {showStats && <Stats className="stats-bottom-right" />}
         
-        {!cameraPannerComplete && (
+        {!cameraPannerComplete && pan && (
           <CameraPanner 
+            pan={pan}
             preTestProgress={preTestProgress} 
             onComplete={() => setCameraPannerComplete(true)} 
           />
@@ -1890,8 +2518,52 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
           fileName={`ring_${selectedModel.replace(/\W+/g, '_')}`}
           onComplete={() => setCapturePhotosphere(false)}
         />
+
+        {/* Turntable export progress */}
+        {turntableProgress && !hideControls && (
+          <Html position={[0, 0, 0]} center>
+            <div style={{
+              background: 'rgba(0,0,0,0.7)',
+              color: 'white',
+              padding: '10px 20px',
+              borderRadius: '5px',
+              fontFamily: 'Arial, sans-serif',
+              whiteSpace: 'nowrap',
+              pointerEvents: 'none'
+            }}>
+              {turntableProgress.frames === 0 || turntableProgress.frame < turntableProgress.frames
+                ? `Recording turntable: ${turntableProgress.frame + 1}/${turntableProgress.frames || '…'}`
+                : "Turntable recorded! Preparing download..."
+              }
+            </div>
+          </Html>
+        )}
       </Canvas>
 
+      {!hideControls && <>
+      {/* Other models of the category */}
+      {categoryModels && categoryModels.length > 1 && (
+        <div
+          style={{
+            position: "absolute",
+            display: "flex",
+            justifyContent: "center",
+            zIndex: 10,
+            ...(isMobile
+              ? { bottom: "10px", left: "10px", right: "10px" }
+              : { bottom: "20px", left: "300px", right: "20px" }
+            )
+          }}
+        >
+          <ModelSwitcher
+            options={categoryModels}
+            selectedModel={selectedModel}
+            onSelect={handleModelSwitch}
+            compact={isMobile}
+          />
+        </div>
+      )}
+
       {/* WebGL Error display for debugging */}
       {glErrors.length > 0 && (
         <div style={{
@@ -2102,6 +2774,21 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
             Clear All Errors
           </button>
           
+          <button 
+            onClick={() => setEditingClassification(!editingClassification)} 
+            style={{
+              background: editingClassification ? "#0aa" : "#333",
+              border: "none",
+              color: "white",
+              padding: "5px 10px",
+              borderRadius: "3px",
+              cursor: "pointer",
+              marginRight: "10px"
+            }}
+          >
+            Edit Classification
+          </button>
+          
           <button 
             onClick={() => setShowDebugPanel(false)} 
             style={{
@@ -2118,6 +2805,21 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
         </div>
       )}
 
+      {editingClassification && (
+        <ClassificationEditor
+          modelSlug={getModelSlug(selectedModel)}
+          overrides={overrides}
+          selectedNode={selectedNodeName}
+          gemRoles={gemRoles}
+          onChangeRole={handleClassificationChange}
+          onChangeGemRole={handleGemRoleChange}
+          onClose={() => {
+            setEditingClassification(false);
+            setSelectedNodeName(null);
+          }}
+        />
+      )}
+
       {/* Disclaimer text */}
       <div style={{
         position: "absolute",
@@ -2138,17 +2840,6 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
       {/* Loading overlay */}
       <CombinedLoader preTestProgress={preTestProgress} />
 
-      {/* Stats positioning styles */}
-      <style jsx global>{`
-        .stats-bottom-right {
-          position: fixed !important;
-          bottom: 0 !important;
-          right: 0 !important;
-          left: auto !important;
-          top: auto !important;
-        }
-      `}</style>
-
       {/* Add Photosphere buttons */}
       <div style={{
         position: "absolute",
@@ -2213,6 +2904,18 @@ function RingViewerComponent({ models, selectedModel, category }: RingViewerProp
       >
         Return to 3D View
       </button>
+      </>}
+
+      {/* Stats positioning styles */}
+      <style jsx global>{`
+        .stats-bottom-right {
+          position: fixed !important;
+          bottom: 0 !important;
+          right: 0 !important;
+          left: auto !important;
+          top: auto !important;
+        }
+      `}</style>
     </div>
   );
 }
@@ -2257,6 +2960,15 @@ export default function RingViewer(props: RingViewerProps) {
     <ErrorBoundary 
       onError={(error) => {
         console.error("RingViewer Error:", error);
+        const event = {
+          type: 'error' as const,
+          message: error.message,
+          category: props.category,
+          model: props.selectedModel,
+          time: performance.now(),
+        };
+        publishViewerStatus(event);
+        props.onStatus?.(event);
         // Only set showCanvas to false for actual WebGL errors
         if (error.message && (
           error.message.includes("WebGL") ||
@@ -2276,112 +2988,6 @@ export default function RingViewer(props: RingViewerProps) {
   );
 }
 
-// Add new helper functions
-
-// Function to analyze overall model data to establish baselines
-function analyzeModelData(nodes: { [key: string]: THREE.Mesh | THREE.Object3D }): any {
-  // Extract all meshes
-  const meshes = Object.values(nodes).filter(node => node instanceof THREE.Mesh) as THREE.Mesh[];
-  
-  if (meshes.length === 0) return { averageY: 0, maxY: 0, minY: 0, centerX: 0, centerZ: 0, avgDistanceFromCenter: 0, averageVolume: 0 };
-  
-  // Calculate properties
-  let totalVolume = 0;
-  let minY = Infinity;
-  let maxY = -Infinity;
-  let sumY = 0;
-  let centerX = 0;
-  let centerZ = 0;
-  
-  // First pass - get center positions
-  meshes.forEach(mesh => {
-    // Use world position
-    const position = new THREE.Vector3();
-    mesh.getWorldPosition(position);
-    
-    centerX += position.x;
-    centerZ += position.z;
-    minY = Math.min(minY, position.y);
-    maxY = Math.max(maxY, position.y);
-    sumY += position.y;
-  });
-  
-  centerX /= meshes.length;
-  centerZ /= meshes.length;
-  const averageY = sumY / meshes.length;
-  
-  // Second pass - calculate volume and distance from center
-  let totalDistanceFromCenter = 0;
-  
-  meshes.forEach(mesh => {
-    // Get bounding box
-    const box = new THREE.Box3().setFromObject(mesh);
-    const size = new THREE.Vector3();
-    box.getSize(size);
-    
-    // Calculate approximate volume
-    const volume = size.x * size.y * size.z;
-    totalVolume += volume;
-    
-    // Calculate distance from center
-    const position = new THREE.Vector3();
-    mesh.getWorldPosition(position);
-    
-    const distanceFromCenter = Math.sqrt(
-      Math.pow(position.x - centerX, 2) + 
-      Math.pow(position.z - centerZ, 2)
-    );
-    
-    totalDistanceFromCenter += distanceFromCenter;
-  });
-  
-  const averageVolume = totalVolume / meshes.length;
-  const avgDistanceFromCenter = totalDistanceFromCenter / meshes.length;
-  
-  return {
-    averageY,
-    minY,
-    maxY,
-    centerX,
-    centerZ,
-    avgDistanceFromCenter,
-    averageVolume,
-    meshes
-  };
-}
-
-// Calculate gem score
-function calculateGemScore(node: THREE.Mesh, nodeName: string, meshData: any): number {
-  // Simplified implementation - returns a score between 0 and 1
-  // Higher number means more likely to be a gem
-  return 0.5;
-}
-
-// Classify a node as primary band or accent band
-function classifyBandNode(
-  node: THREE.Mesh, 
-  material: THREE.Material | undefined, 
-  primaryBandNodes: THREE.Mesh[], 
-  accentBandNodes: THREE.Mesh[],
-  nodeName: string
-) {
-  // Simplified implementation - just adds to primary band
-  primaryBandNodes.push(node);
-}
-
-// Check if a node is a thin ring shape
-function isThinRingShape(node: THREE.Mesh, meshData: any): boolean {
-  // Simplified implementation
-  return false;
-}
-
-// Calculate gem likelihood score
-function getGemLikelihoodScore(mesh: THREE.Mesh, modelData: any): number {
-  // Simplified implementation - returns a score between 0 and 1
-  // Higher number means more likely to be a gem
-  return 0.5;
-}
-
 /**
  * Interface for MeshRefractionMaterial props
  */
@@ -2414,13 +3020,21 @@ interface MeshRefractionMaterialProps {
  * @param isBaguette - Whether the gem is a baguette
  * @param keyPrefix - Prefix for the material key
  * @param materialKey - Unique material key identifier
+ * @param color - Gem color, so colored stones keep their tint without refraction
+ * @param ior - Index of refraction; three.js clamps it to 2.333
  * @returns A React mesh physical material element with appropriate properties
  */
-function createFallbackMaterial(isBaguette: boolean, keyPrefix: string, materialKey: string) {
+function createFallbackMaterial(
+  isBaguette: boolean,
+  keyPrefix: string,
+  materialKey: string,
+  color = "#ffffff",
+  ior = 2.4
+) {
   return (
     <meshPhysicalMaterial
       key={`${keyPrefix}_${materialKey}`}
-      color="#ffffff"
+      color={color}
       roughness={isBaguette ? 0.02 : 0.1}
       metalness={isBaguette ? 0.05 : 0.1}
       transparent={true}
@@ -2429,7 +3043,7 @@ function createFallbackMaterial(isBaguette: boolean, keyPrefix: string, material
       clearcoatRoughness={0.05}
       reflectivity={isBaguette ? 1.5 : 1.2}
       envMapIntensity={isBaguette ? 3.5 : 3.0}
-      ior={2.4}
+      ior={ior}
     />
   );
 }
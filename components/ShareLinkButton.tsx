@@ -0,0 +1,55 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+
+interface ShareLinkButtonProps {
+  // Called on click so the link reflects the viewer state at that moment
+  getUrl: () => string;
+  compact?: boolean;
+}
+
+/**
+ * Copies a link to the current viewer configuration to the clipboard
+ */
+export default function ShareLinkButton({ getUrl, compact = false }: ShareLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleClick = async () => {
+    const url = getUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      // Clipboard access needs a secure context and permission; let the user copy it by hand
+      console.error("Error copying link:", error);
+      window.prompt("Copy this link:", url);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      style={{
+        width: "100%",
+        marginTop: compact ? "6px" : "10px",
+        padding: compact ? "4px 8px" : "8px 0",
+        background: "#ab9580",
+        color: "#fff",
+        border: "none",
+        borderRadius: "8px",
+        fontSize: compact ? "10px" : "14px",
+        fontWeight: "bold",
+        cursor: "pointer",
+        transition: "all 0.3s ease"
+      }}
+    >
+      {copied ? "Link copied!" : "Copy link"}
+    </button>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { getExportSize } from '@/lib/imageExport';
+import {
+  isTurntableFormatSupported,
+  TURNTABLE_EASINGS,
+  TURNTABLE_FORMATS,
+  type TurntableEasing,
+  type TurntableFormat,
+  type TurntableOptions,
+} from '@/lib/turntableExport';
+
+interface TurntableExportButtonProps {
+  // Unset until the viewer is ready
+  exportTurntable: ((options: TurntableOptions) => Promise<Blob>) | null;
+  // File name of the download, without size and extension
+  fileName: string;
+  // Width over height of the view on screen
+  getViewAspect: () => number;
+  // A turntable is being recorded, from here or by a script
+  recording: boolean;
+  compact?: boolean;
+}
+
+const SIZES = [720, 1080, 1920];
+
+// Width over height, or null for the shape of the view
+const SHAPES: { label: string; aspect: number | null }[] = [
+  { label: "As shown", aspect: null },
+  { label: "Square (1:1)", aspect: 1 },
+  { label: "Portrait (4:5)", aspect: 4 / 5 },
+  { label: "Story (9:16)", aspect: 9 / 16 },
+];
+
+const EASING_NAMES: Record<TurntableEasing, string> = {
+  'linear': "Steady",
+  'ease-in': "Speed up",
+  'ease-out': "Slow down",
+  'ease-in-out': "Speed up and slow down",
+};
+
+// Video encoders need even sizes
+const toEven = (side: number) => Math.max(2, Math.round(side / 2) * 2);
+
+const fieldStyle: React.CSSProperties = {
+  display: "block",
+  marginBottom: "10px",
+  fontSize: "12px",
+  fontWeight: "bold",
+  color: "#5c4a3a",
+};
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  width: "100%",
+  boxSizing: "border-box",
+  marginTop: "4px",
+  padding: "6px",
+  border: "1px solid #d8cfc4",
+  borderRadius: "6px",
+  fontSize: "14px",
+  color: "#333",
+  background: "#fff",
+};
+
+/**
+ * "Export turntable" button with a dialog for short clips of the camera
+ * orbiting the ring, recorded in the browser and downloaded
+ */
+export default function TurntableExportButton({
+  exportTurntable,
+  fileName,
+  getViewAspect,
+  recording,
+  compact = false
+}: TurntableExportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [longestSide, setLongestSide] = useState(1080);
+  const [shape, setShape] = useState(1);
+  const [degrees, setDegrees] = useState('360');
+  // Empty keeps the camera's current elevation
+  const [elevation, setElevation] = useState('');
+  const [duration, setDuration] = useState('6');
+  const [easing, setEasing] = useState<TurntableEasing>('linear');
+  const [format, setFormat] = useState<TurntableFormat>('webm');
+  const [background, setBackground] = useState('#ffffff');
+  const [supported, setSupported] = useState<TurntableFormat[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Needs the browser, so checked when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const formats = (Object.keys(TURNTABLE_FORMATS) as TurntableFormat[]).filter(isTurntableFormatSupported);
+    setSupported(formats);
+    setFormat(prev => formats.includes(prev) || formats.length === 0 ? prev : formats[0]);
+  }, [open]);
+
+  const aspect = SHAPES[shape].aspect ?? getViewAspect();
+  const size = getExportSize(longestSide, aspect);
+  const width = toEven(size.width);
+  const height = toEven(size.height);
+  const transparent = background === 'transparent';
+
+  const handleExport = async () => {
+    if (!exportTurntable) return;
+    const options: TurntableOptions = {
+      width,
+      height,
+      format,
+      degrees: Number(degrees) || 360,
+      elevation: elevation.trim() === '' ? undefined : Number(elevation),
+      duration: Math.min(30, Math.max(1, Number(duration) || 6)),
+      easing,
+      background,
+    };
+    setMessage(null);
+    // Out of the way of the progress overlay and the ring
+    setOpen(false);
+    try {
+      const blob = await exportTurntable(options);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}-turntable-${width}x${height}.${TURNTABLE_FORMATS[format].extension}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting turntable:", error);
+      setMessage(error instanceof Error ? error.message : "Couldn't record the turntable");
+      setOpen(true);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={!exportTurntable || recording}
+        style={{
+          width: "100%",
+          marginTop: compact ? "6px" : "10px",
+          padding: compact ? "6px 8px" : "8px 0",
+          background: "#fff",
+          color: "#5c4a3a",
+          border: "1px solid #ab9580",
+          borderRadius: "8px",
+          fontSize: compact ? "11px" : "13px",
+          cursor: exportTurntable && !recording ? "pointer" : "default",
+          opacity: exportTurntable && !recording ? 1 : 0.6,
+          transition: "all 0.3s ease"
+        }}
+      >
+        {recording ? "Recording…" : "Export turntable"}
+      </button>
+
+      {open && (
+        <div
+          onClick={() => setOpen(false)}
+          style={{
+            position: "fixed",
+            inset: 0,
+            background: "rgba(0, 0, 0, 0.4)",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            zIndex: 1000,
+          }}
+        >
+          <div
+            role="dialog"
+            aria-label="Export turntable"
+            onClick={event => event.stopPropagation()}
+            style={{
+              width: "min(380px, calc(100vw - 32px))",
+              maxHeight: "calc(100vh - 32px)",
+              overflowY: "auto",
+              padding: "20px",
+              background: "#fff",
+              borderRadius: "12px",
+              boxShadow: "0 8px 32px rgba(0, 0, 0, 0.2)",
+            }}
+          >
+            <h3 style={{ margin: "0 0 12px", color: "#5c4a3a" }}>Export turntable</h3>
+
+            <div style={{ display: "flex", gap: "8px" }}>
+              <label style={{ ...fieldStyle, flex: 1 }}>
+                Size
+                <select value={longestSide} onChange={event => setLongestSide(Number(event.target.value))} style={inputStyle}>
+                  {SIZES.map(side => (
+                    <option key={side} value={side}>{side} px</option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ ...fieldStyle, flex: 1 }}>
+                Shape
+                <select value={shape} onChange={event => setShape(Number(event.target.value))} style={inputStyle}>
+                  {SHAPES.map((option, index) => (
+                    <option key={option.label} value={index}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div style={{ display: "flex", gap: "8px" }}>
+              <label style={{ ...fieldStyle, flex: 1 }}>
+                Turn (degrees)
+                <input
+                  type="number"
+                  value={degrees}
+                  onChange={event => setDegrees(event.target.value)}
+                  min={-720}
+                  max={720}
+                  step={15}
+                  style={inputStyle}
+                />
+              </label>
+              <label style={{ ...fieldStyle, flex: 1 }}>
+                Elevation (degrees)
+                <input
+                  type="number"
+                  value={elevation}
+                  onChange={event => setElevation(event.target.value)}
+                  min={-89}
+                  max={89}
+                  placeholder="As shown"
+                  style={inputStyle}
+                />
+              </label>
+            </div>
+
+            <div style={{ display: "flex", gap: "8px" }}>
+              <label style={{ ...fieldStyle, flex: 1 }}>
+                Duration (seconds)
+                <input
+                  type="number"
+                  value={duration}
+                  onChange={event => setDuration(event.target.value)}
+                  min={1}
+                  max={30}
+                  style={inputStyle}
+                />
+              </label>
+              <label style={{ ...fieldStyle, flex: 1 }}>
+                Motion
+                <select value={easing} onChange={event => setEasing(event.target.value as TurntableEasing)} style={inputStyle}>
+                  {(Object.keys(TURNTABLE_EASINGS) as TurntableEasing[]).map(key => (
+                    <option key={key} value={key}>{EASING_NAMES[key]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label style={fieldStyle}>
+              Format
+              <select
+                value={format}
+                onChange={event => {
+                  const next = event.target.value as TurntableFormat;
+                  setFormat(next);
+                  // Videos can't be transparent
+                  if (next !== 'webp' && transparent) setBackground('#ffffff');
+                }}
+                style={inputStyle}
+              >
+                {(Object.keys(TURNTABLE_FORMATS) as TurntableFormat[]).map(key => (
+                  <option key={key} value={key} disabled={!supported.includes(key)}>
+                    {TURNTABLE_FORMATS[key].name}{supported.includes(key) ? "" : " (not supported by this browser)"}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label style={fieldStyle}>
+              Background
+              <div style={{ display: "flex", gap: "6px", marginTop: "4px" }}>
+                <select
+                  value={transparent ? 'transparent' : 'color'}
+                  onChange={event => setBackground(event.target.value === 'transparent' ? 'transparent' : '#ffffff')}
+                  style={{ ...inputStyle, marginTop: 0, flex: 1 }}
+                >
+                  <option value="color">Solid color</option>
+                  <option value="transparent" disabled={format !== 'webp'}>Transparent (animated WebP only)</option>
+                </select>
+                {!transparent && (
+                  <input
+                    type="color"
+                    value={background}
+                    onChange={event => setBackground(event.target.value)}
+                    aria-label="Background color"
+                    style={{ width: "40px", height: "32px", padding: 0, border: "1px solid #d8cfc4", borderRadius: "6px" }}
+                  />
+                )}
+              </div>
+            </label>
+
+            <p style={{ margin: "0 0 10px", fontSize: "12px", color: "#666" }}>
+              {width} × {height} px. Videos record in real time, so keep this tab open until the download starts.
+            </p>
+            {message && (
+              <p style={{ margin: "0 0 10px", fontSize: "12px", color: "#a33" }}>{message}</p>
+            )}
+
+            <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px" }}>
+              <button
+                onClick={() => setOpen(false)}
+                style={{ padding: "8px 16px", background: "#f0f0f0", color: "#333", border: "none", borderRadius: "6px", cursor: "pointer" }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!supported.includes(format)}
+                style={{
+                  padding: "8px 16px",
+                  background: "#5c4a3a",
+                  color: "#fff",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: supported.includes(format) ? "pointer" : "default",
+                  opacity: supported.includes(format) ? 1 : 0.7,
+                }}
+              >
+                Record
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1 +1,2 @@
-declare module 'three/examples/jsm/modifiers/SimplifyModifier';
\ No newline at end of file
+declare module 'three/examples/jsm/modifiers/SimplifyModifier';
+declare module 'draco3dgltf';
\ No newline at end of file
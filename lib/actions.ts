@@ -1,23 +1,13 @@
 'use server';
 
-import { readdirSync, statSync } from 'fs';
-import { join } from 'path';
+import { getCatalog, getCategory, getModel } from './catalog';
 
 export async function getCategories() {
-  let categorizedModels: Record<string, string[]> = {};
+  const categorizedModels: Record<string, string[]> = {};
   try {
-    const baseDir = join(process.cwd(), "public", "3d");
-    const categories = readdirSync(baseDir);
+    const { categories } = await getCatalog();
     categories.forEach((category) => {
-      const categoryPath = join(baseDir, category);
-      if (statSync(categoryPath).isDirectory()) {
-        const files = readdirSync(categoryPath).filter((file) =>
-          file.endsWith(".glb")
-        );
-        if (files.length > 0) {
-          categorizedModels[category] = files;
-        }
-      }
+      categorizedModels[category.name] = category.models.map((model) => model.fileName);
     });
   } catch (error) {
     console.error("Error reading models directory", error);
@@ -28,10 +18,7 @@ export async function getCategories() {
 export async function getCategoryModels(category: string) {
   let models: string[] = [];
   try {
-    const categoryPath = join(process.cwd(), "public", "3d", category);
-    if (statSync(categoryPath).isDirectory()) {
-      models = readdirSync(categoryPath).filter((file) => file.endsWith(".glb"));
-    }
+    models = (await getCategory(category))?.models.map((model) => model.fileName) ?? [];
   } catch (error) {
     console.error("Error reading models for category", category, error);
   }
@@ -40,8 +27,7 @@ export async function getCategoryModels(category: string) {
 
 export async function checkImageExists(category: string, modelSlug: string) {
   try {
-    const fullPath = join(process.cwd(), 'public', 'images', category, `${modelSlug}.png`);
-    return statSync(fullPath).isFile();
+    return !!(await getModel(category, modelSlug))?.imageUrl;
   } catch {
     return false;
   }
@@ -49,9 +35,8 @@ export async function checkImageExists(category: string, modelSlug: string) {
 
 export async function checkGifExists(category: string, modelSlug: string) {
   try {
-    const fullPath = join(process.cwd(), 'public', 'gifs', category, `${modelSlug}.gif`);
-    return statSync(fullPath).isFile();
+    return !!(await getModel(category, modelSlug))?.gifUrl;
   } catch {
     return false;
   }
-} 
\ No newline at end of file
+}
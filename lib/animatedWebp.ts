@@ -0,0 +1,115 @@
+/**
+ * Puts still WebP images together into an animated WebP, as browsers can
+ * encode the stills from a canvas but not animations
+ *
+ * The container is RIFF: a VP8X header flagging the animation, an ANIM chunk
+ * with the loop count and an ANMF chunk per frame wrapping that frame's image
+ * data. See https://developers.google.com/speed/webp/docs/riff_container
+ */
+
+export interface AnimatedWebpOptions {
+  width: number;
+  height: number;
+  // Display time of each frame, in milliseconds
+  durations: number[];
+  // Whether the frames have transparent pixels
+  alpha: boolean;
+  // Times to play, 0 (the default) to loop forever
+  loops?: number;
+}
+
+interface Chunk {
+  fourCC: string;
+  data: Uint8Array;
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+function uint24(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+}
+
+function uint32(value: number): number[] {
+  return [...uint24(value), (value >>> 24) & 0xff];
+}
+
+// Chunks are padded to an even length, which their size leaves out
+function encodeChunk({ fourCC, data }: Chunk): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(text(fourCC), 0);
+  chunk.set(uint32(data.length), 4);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Chunks of a still WebP file that hold its image: VP8 (lossy) or VP8L
+ * (lossless), with an ALPH chunk before a lossy image that has transparency
+ */
+function readImageChunks(file: Uint8Array): Chunk[] {
+  const decoder = new TextDecoder();
+  if (decoder.decode(file.subarray(0, 4)) !== 'RIFF' || decoder.decode(file.subarray(8, 12)) !== 'WEBP') {
+    throw new Error('A frame is not a WebP image');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const fourCC = decoder.decode(file.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (['ALPH', 'VP8 ', 'VP8L'].includes(fourCC)) {
+      chunks.push({ fourCC, data: file.subarray(offset + 8, offset + 8 + size) });
+    }
+    offset += 8 + size + (size % 2);
+  }
+  if (!chunks.some((chunk) => chunk.fourCC !== 'ALPH')) throw new Error('A frame has no image data');
+  return chunks;
+}
+
+/**
+ * Makes an animated WebP of the frames, each a still WebP file filling the
+ * whole animation
+ */
+export function muxAnimatedWebp(frames: Uint8Array[], options: AnimatedWebpOptions): Blob {
+  const { width, height, durations, alpha, loops = 0 } = options;
+  if (frames.length === 0 || frames.length !== durations.length) {
+    throw new Error('An animation needs at least one frame, and a duration for each');
+  }
+
+  const header = encodeChunk({
+    fourCC: 'VP8X',
+    // Animation and, when needed, alpha flags; then the canvas size less one
+    data: new Uint8Array([(alpha ? 0x10 : 0) | 0x02, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]),
+  });
+  const animation = encodeChunk({
+    fourCC: 'ANIM',
+    // Transparent background color, as BGRA, then the loop count
+    data: new Uint8Array([0, 0, 0, 0, loops & 0xff, (loops >> 8) & 0xff]),
+  });
+  const frameChunks = frames.map((frame, index) => encodeChunk({
+    fourCC: 'ANMF',
+    data: concat([
+      new Uint8Array([
+        // At the top left, at the size of the animation
+        ...uint24(0), ...uint24(0), ...uint24(width - 1), ...uint24(height - 1),
+        ...uint24(Math.round(durations[index])),
+        // Replaces the previous frame instead of blending with it, so
+        // transparent pixels stay transparent
+        0x02,
+      ]),
+      ...readImageChunks(frame).map(encodeChunk),
+    ]),
+  }));
+
+  const body = concat([text('WEBP'), header, animation, ...frameChunks]);
+  return new Blob([text('RIFF'), new Uint8Array(uint32(body.length)), body], { type: 'image/webp' });
+}
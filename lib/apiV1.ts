@@ -0,0 +1,245 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Category, ModelFormat, RingModel } from './catalog';
+import type { ModelPartCounts } from './glbInfo';
+import type { CommerceResult, RingConfiguration } from './commerce';
+import type { PriceEstimate } from './pricing';
+import type { LeadContact } from './leads';
+import { getDisplayName, type ModelMetadata } from './modelMetadata';
+
+/**
+ * Response types for the /api/v1 endpoints
+ */
+export type ApiErrorCode = 'bad_request' | 'not_found' | 'method_not_allowed' | 'checkout_failed' | 'internal_error';
+
+export interface ApiError {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
+
+export interface CategorySummary {
+  name: string;
+  modelCount: number;
+  url: string;
+  modelsUrl: string;
+}
+
+export interface ModelSummary {
+  slug: string;
+  category: string;
+  name: string;
+  format: ModelFormat;
+  url: string;
+  viewerUrl: string;
+  thumbnailUrl: string | null;
+  metadata: ModelMetadata | null;
+}
+
+export interface ModelDetail extends ModelSummary {
+  fileName: string;
+  fileSize: number;
+  modifiedAt: string;
+  assets: {
+    model: string;
+    image: string | null;
+    gif: string | null;
+  };
+  // Gem and band parts as the viewer classifies them (lib/classifyRing.ts); null for .3dm files
+  // and files that can't be analysed
+  parts: ModelPartCounts | null;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// A model at the root of public/3d; without a category it has no viewer page or detail endpoint
+export interface UncategorizedModel {
+  slug: string;
+  name: string;
+  format: ModelFormat;
+  fileName: string;
+  modelUrl: string;
+  thumbnailUrl: string | null;
+  metadata: ModelMetadata | null;
+}
+
+export interface CatalogResponse {
+  categories: Array<CategorySummary & { models: ModelSummary[] }>;
+  uncategorized: UncategorizedModel[];
+  generatedAt: string;
+}
+
+export interface CategoriesResponse {
+  categories: CategorySummary[];
+}
+
+export type CategoryModelsResponse = Paginated<ModelSummary> & {
+  category: CategorySummary;
+};
+
+export interface ModelDetailResponse {
+  model: ModelDetail;
+}
+
+export interface PriceEstimateResponse {
+  // null when the model has no base price in its metadata
+  estimate: PriceEstimate | null;
+}
+
+export interface CheckoutRequest {
+  category: string;
+  slug: string;
+  // The customer's choices in share link form, as from serializeViewerConfig
+  config: string;
+}
+
+export interface CheckoutResponse {
+  result: CommerceResult;
+  // The choices as the shop received them
+  configuration: RingConfiguration;
+}
+
+export interface LeadRequest {
+  category: string;
+  slug: string;
+  // The viewer state in share link form, camera angle included
+  config: string;
+  contact: LeadContact;
+  // The customer's view of the ring as an image data URL
+  snapshot?: string;
+}
+
+export interface LeadResponse {
+  reference: string;
+}
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+export function sendError(res: NextApiResponse<ApiError>, status: number, code: ApiErrorCode, message: string) {
+  res.status(status).json({ error: { code, message } });
+}
+
+/**
+ * Rejects anything but GET with a 405; returns false when the request was rejected
+ */
+export function allowGet(req: NextApiRequest, res: NextApiResponse<ApiError>): boolean {
+  if (req.method === 'GET' || req.method === 'HEAD') return true;
+  res.setHeader('Allow', 'GET, HEAD');
+  sendError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`);
+  return false;
+}
+
+/**
+ * Rejects anything but POST with a 405; returns false when the request was rejected
+ */
+export function allowPost(req: NextApiRequest, res: NextApiResponse<ApiError>): boolean {
+  if (req.method === 'POST') return true;
+  res.setHeader('Allow', 'POST');
+  sendError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`);
+  return false;
+}
+
+export function getQueryParam(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads ?page and ?pageSize, returning an error message when either is invalid
+ */
+export function getPagination(req: NextApiRequest): { page: number; pageSize: number } | { error: string } {
+  const pageParam = getQueryParam(req, 'page');
+  const pageSizeParam = getQueryParam(req, 'pageSize');
+  const page = pageParam === undefined ? 1 : Number(pageParam);
+  const pageSize = pageSizeParam === undefined ? DEFAULT_PAGE_SIZE : Number(pageSizeParam);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'page must be a positive integer' };
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+  return { page, pageSize };
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): Paginated<T> {
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    total: items.length,
+    totalPages: Math.ceil(items.length / pageSize),
+  };
+}
+
+/**
+ * Turns a site path into an absolute URL, so clients on other domains
+ * (the Shopify theme, the mobile app) can use the URLs as they are
+ */
+export function absoluteUrl(req: NextApiRequest, path: string): string {
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const protocol = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto)?.split(',')[0]
+    ?? ((req.socket as { encrypted?: boolean }).encrypted ? 'https' : 'http');
+  const host = req.headers['x-forwarded-host'] ?? req.headers.host ?? 'localhost';
+  return new URL(path, `${protocol}://${Array.isArray(host) ? host[0] : host}`).toString();
+}
+
+const encodePath = (...segments: string[]) => segments.map(encodeURIComponent).join('/');
+
+export function toCategorySummary(req: NextApiRequest, category: Category): CategorySummary {
+  return {
+    name: category.name,
+    modelCount: category.models.length,
+    url: absoluteUrl(req, `/${encodePath(category.name)}`),
+    modelsUrl: absoluteUrl(req, `/api/v1/categories/${encodePath(category.name)}/models`),
+  };
+}
+
+export function toModelSummary(req: NextApiRequest, model: RingModel): ModelSummary {
+  const thumbnail = model.imageUrl ?? model.gifUrl;
+  return {
+    slug: model.slug,
+    category: model.category,
+    name: getDisplayName(model.slug, model.metadata),
+    format: model.format,
+    url: absoluteUrl(req, `/api/v1/models/${encodePath(model.category, model.slug)}`),
+    viewerUrl: absoluteUrl(req, `/${encodePath(model.category, model.slug)}`),
+    thumbnailUrl: thumbnail ? absoluteUrl(req, thumbnail) : null,
+    metadata: model.metadata,
+  };
+}
+
+export function toUncategorizedModel(req: NextApiRequest, model: RingModel): UncategorizedModel {
+  const thumbnail = model.imageUrl ?? model.gifUrl;
+  return {
+    slug: model.slug,
+    name: getDisplayName(model.slug, model.metadata),
+    format: model.format,
+    fileName: model.fileName,
+    modelUrl: absoluteUrl(req, model.assetUrl),
+    thumbnailUrl: thumbnail ? absoluteUrl(req, thumbnail) : null,
+    metadata: model.metadata,
+  };
+}
+
+export function toModelDetail(req: NextApiRequest, model: RingModel, parts: ModelPartCounts | null): ModelDetail {
+  return {
+    ...toModelSummary(req, model),
+    fileName: model.fileName,
+    fileSize: model.size,
+    modifiedAt: new Date(model.modifiedAt).toISOString(),
+    assets: {
+      model: absoluteUrl(req, model.assetUrl),
+      image: model.imageUrl ? absoluteUrl(req, model.imageUrl) : null,
+      gif: model.gifUrl ? absoluteUrl(req, model.gifUrl) : null,
+    },
+    parts,
+  };
+}
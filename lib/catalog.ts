@@ -0,0 +1,205 @@
+import { createCatalogStorage, type CatalogStorage } from './catalogStorage';
+import { getModelSlug, parseModelMetadata, type ModelMetadata } from './modelMetadata';
+import {
+  getOverridesFileName,
+  parseClassificationOverrides,
+  type ClassificationOverrides,
+} from './classificationOverrides';
+
+export type ModelFormat = 'glb' | '3dm';
+
+/**
+ * A ring model as listed in the catalog
+ */
+export interface RingModel {
+  // Route segment for the model page: the file name without ".glb", or the full name for .3dm files
+  slug: string;
+  // Empty for models at the root of public/3d
+  category: string;
+  fileName: string;
+  format: ModelFormat;
+  assetKey: string;
+  assetUrl: string;
+  size: number;
+  modifiedAt: number;
+  imageUrl: string | null;
+  gifUrl: string | null;
+  metadata: ModelMetadata | null;
+  classificationOverrides: ClassificationOverrides | null;
+}
+
+export interface Category {
+  name: string;
+  models: RingModel[];
+}
+
+export interface Catalog {
+  categories: Category[];
+  // Models at the root of public/3d, outside any category folder. The viewer
+  // finds models by category, so these have no model pages.
+  uncategorized: RingModel[];
+  generatedAt: number;
+}
+
+const MODEL_FILE_PATTERN = /\.(glb|3dm)$/i;
+
+let storage: CatalogStorage | null = null;
+let stopWatching: (() => void) | null = null;
+let cachedCatalog: Promise<Catalog> | null = null;
+
+export function getCatalogStorage(): CatalogStorage {
+  if (!storage) {
+    storage = createCatalogStorage();
+    stopWatching = storage.watch?.(invalidateCatalog) ?? null;
+  }
+  return storage;
+}
+
+// Model pages drop ".glb" from the file name but keep ".3dm", which RingViewer needs to pick its loader
+function getRouteSlug(fileName: string): string {
+  return fileName.replace(/\.glb$/i, '');
+}
+
+async function readSidecar<T>(
+  store: CatalogStorage,
+  key: string,
+  parse: (raw: unknown) => T | null
+): Promise<T | null> {
+  const contents = await store.read(key);
+  if (!contents) return null;
+  try {
+    return parse(JSON.parse(contents.toString('utf8')));
+  } catch (error) {
+    console.error("Error reading model sidecar", key, error);
+    return null;
+  }
+}
+
+/**
+ * Lists the models in a folder under 3d, with their thumbnails from the
+ * folder of the same name under images and gifs
+ *
+ * @param folder - Path of the folder within 3d; empty for the root
+ */
+async function loadModels(store: CatalogStorage, folder: string): Promise<RingModel[]> {
+  const inFolder = (root: string) => folder ? `${root}/${folder}` : root;
+  const [entries, images, gifs] = await Promise.all([
+    store.list(inFolder('3d')),
+    store.list(inFolder('images')),
+    store.list(inFolder('gifs')),
+  ]);
+  const imageKeys = new Set(images.map((entry) => entry.key));
+  const gifKeys = new Set(gifs.map((entry) => entry.key));
+  const sidecars = new Set(entries.filter((entry) => entry.name.endsWith('.json')).map((entry) => entry.name));
+  const readIfPresent = <T>(name: string, parse: (raw: unknown) => T | null) =>
+    sidecars.has(name) ? readSidecar(store, `${inFolder('3d')}/${name}`, parse) : Promise.resolve(null);
+
+  const modelFiles = entries
+    .filter((entry) => !entry.isDirectory && MODEL_FILE_PATTERN.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return Promise.all(modelFiles.map(async (entry): Promise<RingModel> => {
+    const baseName = getModelSlug(entry.name);
+    const imageKey = `${inFolder('images')}/${baseName}.png`;
+    const gifKey = `${inFolder('gifs')}/${baseName}.gif`;
+
+    return {
+      slug: getRouteSlug(entry.name),
+      category: folder,
+      fileName: entry.name,
+      format: entry.name.toLowerCase().endsWith('.3dm') ? '3dm' : 'glb',
+      assetKey: entry.key,
+      assetUrl: store.publicUrl(entry.key),
+      size: entry.size,
+      modifiedAt: entry.modifiedAt,
+      imageUrl: imageKeys.has(imageKey) ? store.publicUrl(imageKey) : null,
+      gifUrl: gifKeys.has(gifKey) ? store.publicUrl(gifKey) : null,
+      metadata: await readIfPresent(`${baseName}.json`, parseModelMetadata),
+      classificationOverrides: await readIfPresent(getOverridesFileName(baseName), parseClassificationOverrides),
+    };
+  }));
+}
+
+async function loadCatalog(): Promise<Catalog> {
+  const store = getCatalogStorage();
+  const folders = (await store.list('3d')).filter((entry) => entry.isDirectory);
+  const [uncategorized, ...categories] = await Promise.all([
+    loadModels(store, ''),
+    ...folders.map(async (folder): Promise<Category> => ({
+      name: folder.name,
+      models: await loadModels(store, folder.name),
+    })),
+  ]);
+
+  return {
+    categories: categories
+      .filter((category) => category.models.length > 0)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    uncategorized,
+    generatedAt: Date.now(),
+  };
+}
+
+/**
+ * Returns every category under public/3d with its models, and the models
+ * outside any category
+ *
+ * The result is cached in memory until the storage reports a change.
+ */
+export function getCatalog(): Promise<Catalog> {
+  if (!cachedCatalog) {
+    cachedCatalog = loadCatalog().catch((error) => {
+      // Don't cache failures, so the next request tries again
+      cachedCatalog = null;
+      throw error;
+    });
+  }
+  return cachedCatalog;
+}
+
+export function invalidateCatalog() {
+  cachedCatalog = null;
+}
+
+// Stops watching storage for changes, e.g. at the end of a build script
+export function closeCatalog() {
+  stopWatching?.();
+  stopWatching = null;
+  storage = null;
+  cachedCatalog = null;
+}
+
+export async function getCategories(): Promise<Category[]> {
+  return (await getCatalog()).categories;
+}
+
+export async function getCategory(name: string): Promise<Category | null> {
+  const categories = await getCategories();
+  return categories.find((category) => category.name === name) ?? null;
+}
+
+/**
+ * Finds a model by its route slug; the file name with its extension is accepted too
+ */
+export async function getModel(categoryName: string, slug: string): Promise<RingModel | null> {
+  // Models at the root of public/3d have an empty category
+  const models = categoryName ? (await getCategory(categoryName))?.models : (await getCatalog()).uncategorized;
+  return models?.find((model) => model.slug === slug || model.fileName === slug) ?? null;
+}
+
+/**
+ * Finds a model by "<category>/<slug>", the way stacked rings are listed
+ */
+export async function getModelByKey(key: string): Promise<RingModel | null> {
+  const separator = key.lastIndexOf('/');
+  if (separator < 0) return null;
+  return getModel(key.slice(0, separator), key.slice(separator + 1));
+}
+
+// Picks a random category first, so small categories show up as often as large ones
+export async function getRandomModel(): Promise<RingModel | null> {
+  const categories = await getCategories();
+  if (categories.length === 0) return null;
+  const { models } = categories[Math.floor(Math.random() * categories.length)];
+  return models[Math.floor(Math.random() * models.length)];
+}
@@ -0,0 +1,149 @@
+import { watch, type FSWatcher } from 'fs';
+import { readFile, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * A file or folder in the catalog storage. Keys are relative to the storage root
+ * and always use forward slashes, e.g. "3d/Solitaire/387334.glb".
+ */
+export interface StorageEntry {
+  name: string;
+  key: string;
+  isDirectory: boolean;
+  size: number;
+  modifiedAt: number;
+}
+
+/**
+ * Backend the catalog reads models, sidecars and thumbnails from
+ *
+ * The local filesystem is the only backend today; an S3-compatible store only
+ * needs to implement these methods and be added to createCatalogStorage.
+ */
+export interface CatalogStorage {
+  // Entries directly under a folder; an empty list when the folder doesn't exist
+  list(prefix: string): Promise<StorageEntry[]>;
+  // File contents, or null when the file doesn't exist
+  read(key: string): Promise<Buffer | null>;
+  // URL browsers load the file from
+  publicUrl(key: string): string;
+  // Calls onChange whenever stored files change; returns a function that stops watching
+  watch?(onChange: () => void): () => void;
+}
+
+// Folders under the root whose changes invalidate the catalog
+const CATALOG_FOLDERS = ['3d', 'images', 'gifs'];
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * Serves the catalog from the Next.js public folder
+ */
+export class LocalCatalogStorage implements CatalogStorage {
+  constructor(private readonly root: string = join(process.cwd(), 'public')) {}
+
+  async list(prefix: string): Promise<StorageEntry[]> {
+    let names: string[];
+    try {
+      names = await readdir(join(this.root, prefix));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const entries = await Promise.all(names.map(async (name) => {
+      const key = prefix ? `${prefix}/${name}` : name;
+      try {
+        const stats = await stat(join(this.root, key));
+        return {
+          name,
+          key,
+          isDirectory: stats.isDirectory(),
+          size: stats.size,
+          modifiedAt: stats.mtimeMs,
+        };
+      } catch (error) {
+        // The file was removed between readdir and stat
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    }));
+    return entries.filter((entry): entry is StorageEntry => entry !== null);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(join(this.root, key));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  publicUrl(key: string): string {
+    return `/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  watch(onChange: () => void): () => void {
+    const watchers = new Map<string, FSWatcher>();
+    let closed = false;
+
+    const watchFolder = (folder: string) => {
+      watchers.get(folder)?.close();
+      watchers.delete(folder);
+      if (closed) return;
+      try {
+        const watcher = watch(join(this.root, folder), { recursive: true }, onChange);
+        // Emitted e.g. when the folder is deleted or renamed; unhandled, it would stop the server
+        watcher.on('error', (error) => {
+          console.error("Error watching catalog folder", folder, error);
+          onChange();
+          watchFolder(folder);
+        });
+        watchers.set(folder, watcher);
+      } catch (error) {
+        // Folders that don't exist yet are watched once the root watcher sees them created
+        if (!isMissing(error)) {
+          console.error("Error watching catalog folder", folder, error);
+        }
+      }
+    };
+
+    CATALOG_FOLDERS.forEach(watchFolder);
+    try {
+      // Not recursive: only notices catalog folders being created, removed or renamed
+      const rootWatcher = watch(this.root, (_event, name) => {
+        if (name && CATALOG_FOLDERS.includes(name.toString())) {
+          onChange();
+          watchFolder(name.toString());
+        }
+      });
+      rootWatcher.on('error', (error) => {
+        console.error("Error watching catalog root", this.root, error);
+        rootWatcher.close();
+      });
+      watchers.set('', rootWatcher);
+    } catch (error) {
+      console.error("Error watching catalog root", this.root, error);
+    }
+
+    return () => {
+      closed = true;
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+    };
+  }
+}
+
+/**
+ * Creates the storage backend selected by the CATALOG_STORAGE environment variable
+ */
+export function createCatalogStorage(): CatalogStorage {
+  const backend = process.env.CATALOG_STORAGE || 'local';
+  switch (backend) {
+    case 'local':
+      return new LocalCatalogStorage(process.env.CATALOG_LOCAL_ROOT || undefined);
+    default:
+      throw new Error(`Unknown catalog storage backend "${backend}"`);
+  }
+}
@@ -0,0 +1,75 @@
+import { GEM_ROLES, type GemRole } from "./gemRoles";
+
+/**
+ * Manual corrections to the gem/band classification, stored next to a model as
+ * `<slug>.classification.json`, e.g. public/3d/Solitaire/387334.classification.json:
+ *
+ * {
+ *   "nodes": { "PART0001": "gem", "PART0002": "accent", "PART0003": "hidden" },
+ *   "gemRoles": { "PART0001": "center" }
+ * }
+ */
+export type NodeRole = "gem" | "primary" | "accent" | "hidden";
+
+export const NODE_ROLES: NodeRole[] = ["gem", "primary", "accent", "hidden"];
+
+export interface ClassificationOverrides {
+  // Role pinned for each node, keyed by node name
+  nodes: Record<string, NodeRole>;
+  // Center/side/accent role pinned for gem nodes, keyed by node name
+  gemRoles: Record<string, GemRole>;
+}
+
+export function getOverridesFileName(modelSlug: string): string {
+  return `${modelSlug}.classification.json`;
+}
+
+const isNodeRole = (value: unknown): value is NodeRole =>
+  typeof value === "string" && (NODE_ROLES as string[]).includes(value);
+
+const isGemRole = (value: unknown): value is GemRole =>
+  typeof value === "string" && (GEM_ROLES as string[]).includes(value);
+
+/**
+ * Validates a parsed overrides file, skipping entries with an unknown role
+ * ("gemRoles" is optional, older files only have "nodes")
+ *
+ * @param raw - The parsed JSON content
+ * @returns The overrides, or null when the file has no "nodes" object
+ */
+export function parseClassificationOverrides(raw: unknown): ClassificationOverrides | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const nodes = (raw as { nodes?: unknown }).nodes;
+  if (typeof nodes !== "object" || nodes === null || Array.isArray(nodes)) return null;
+
+  const overrides: ClassificationOverrides = { nodes: {}, gemRoles: {} };
+  for (const [name, role] of Object.entries(nodes)) {
+    if (isNodeRole(role)) {
+      overrides.nodes[name] = role;
+    } else {
+      console.warn(`Ignoring override for node "${name}": unknown role ${JSON.stringify(role)}`);
+    }
+  }
+
+  const gemRoles = (raw as { gemRoles?: unknown }).gemRoles;
+  if (typeof gemRoles === "object" && gemRoles !== null && !Array.isArray(gemRoles)) {
+    for (const [name, role] of Object.entries(gemRoles)) {
+      if (isGemRole(role)) {
+        overrides.gemRoles[name] = role;
+      } else {
+        console.warn(`Ignoring gem role for node "${name}": unknown role ${JSON.stringify(role)}`);
+      }
+    }
+  }
+  return overrides;
+}
+
+const sortByName = <T>(entries: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+
+export function serializeClassificationOverrides(overrides: ClassificationOverrides): string {
+  const file: Partial<ClassificationOverrides> = { nodes: sortByName(overrides.nodes) };
+  // Leave "gemRoles" out when unused, so files without gem roles stay as they were
+  if (Object.keys(overrides.gemRoles).length > 0) file.gemRoles = sortByName(overrides.gemRoles);
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
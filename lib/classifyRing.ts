@@ -0,0 +1,270 @@
+import * as THREE from 'three';
+import type { ClassificationOverrides, NodeRole } from './classificationOverrides';
+import { assignGemRoles, type GemRole } from './gemRoles';
+import {
+  analyzeModelData,
+  calculateGemScore,
+  getGemLikelihoodScore,
+  isAccentBandNode,
+  isThinRingShape,
+  type ModelData
+} from './gemScoring';
+
+/**
+ * Splits a loaded ring model into gems, primary band and accent band parts.
+ *
+ * This has no React or WebGL dependencies, so it runs the same in the viewer and
+ * in Node (see scripts/classification-snapshot.ts).
+ */
+
+export interface NodeClassification {
+  role: NodeRole;
+  // Geometric gem score (0-100); null when the material alone decided the role
+  score: number | null;
+  // Which rule decided the role, for debugging the heuristics
+  reason: string;
+}
+
+export interface RingClassification {
+  gems: THREE.Mesh[];
+  primary: THREE.Mesh[];
+  accent: THREE.Mesh[];
+  // Nodes an override hides; not rendered, but the classification editor still shows them
+  hidden: THREE.Mesh[];
+  // Keyed by node name
+  nodes: Record<string, NodeClassification>;
+  // Center/side/accent role of every gem, keyed by node name
+  gemRoles: Record<string, GemRole>;
+}
+
+type RingNodesMap = { [key: string]: THREE.Object3D };
+
+const HIGH_GEM_SCORE = 75;
+const LOW_GEM_SCORE = 40;
+
+// Function to analyze a material and determine if it's likely a gemstone
+function isGemMaterial(material: THREE.Material | undefined): boolean {
+  if (!material) return false;
+
+  // Check for explicit diamond material extension (most reliable metadata)
+  if (material.userData?.gltfExtensions?.WEBGI_materials_diamond) return true;
+
+  // Check material name for gem indicators (secondary metadata)
+  const materialName = material.name.toLowerCase();
+  if (materialName.includes('diamond') ||
+      materialName.includes('gem') ||
+      materialName.includes('crystal') ||
+      materialName.includes('stone')) {
+    return true;
+  }
+
+  if (material instanceof THREE.MeshStandardMaterial) {
+    // Only use material properties if they're very strong indicators:
+    // non-metallic and highly transparent is likely a gem
+    const isNonMetallic = material.metalness === 0;
+    const isHighlyTransparent = material.transparent === true && material.opacity < 0.5;
+    if (isNonMetallic && isHighlyTransparent) {
+      return true;
+    }
+  }
+
+  // Anything else is left to the geometric checks
+  return false;
+}
+
+// Gems tend to sit high on the ring or near its center
+function isGemByPosition(node: THREE.Mesh, meshData: ModelData): boolean {
+  const isAboveAverageHeight = node.position.y > meshData.averageY + (meshData.maxY - meshData.minY) * 0.1;
+  const distanceFromCenter = Math.sqrt(
+    Math.pow(node.position.x - meshData.centerX, 2) +
+    Math.pow(node.position.z - meshData.centerZ, 2)
+  );
+  const isNearCenter = distanceFromCenter < meshData.avgDistanceFromCenter * 0.8;
+  return isAboveAverageHeight || isNearCenter;
+}
+
+// Gems are smaller than the average part, but not tiny, and roughly as wide as they are tall
+function isGemBySize(node: THREE.Mesh, meshData: ModelData): boolean {
+  const size = new THREE.Box3().setFromObject(node).getSize(new THREE.Vector3());
+  const volume = size.x * size.y * size.z;
+
+  const isSmallerThanAverage = volume < meshData.averageVolume * 0.8;
+  const isNotTooSmall = volume > meshData.averageVolume * 0.05;
+
+  const aspectRatioX = size.x / Math.max(size.y, size.z);
+  const aspectRatioY = size.y / Math.max(size.x, size.z);
+  const aspectRatioZ = size.z / Math.max(size.x, size.y);
+  const isBalancedShape = (
+    aspectRatioX > 0.3 && aspectRatioX < 3 &&
+    aspectRatioY > 0.3 && aspectRatioY < 3 &&
+    aspectRatioZ > 0.3 && aspectRatioZ < 3
+  );
+
+  return isSmallerThanAverage && isNotTooSmall && isBalancedShape;
+}
+
+// Faceted gems have a high index to vertex ratio and a moderate vertex count
+function isGemByGeometry(node: THREE.Mesh): boolean {
+  if (!node.geometry?.attributes?.position) return false;
+  const vertexCount = node.geometry.attributes.position.count;
+  const indexCount = node.geometry.index?.count || 0;
+  const indexToVertexRatio = node.geometry.index ? indexCount / vertexCount : 0;
+  return vertexCount < 3000 && indexToVertexRatio > 2.5;
+}
+
+function groupNodesByMaterial(nodes: THREE.Mesh[]): { [key: string]: THREE.Mesh[] } {
+  const groups: { [key: string]: THREE.Mesh[] } = {};
+  for (const node of nodes) {
+    const materialKey = node.material instanceof THREE.Material ? node.material.uuid : 'unknown';
+    (groups[materialKey] ??= []).push(node);
+  }
+  return groups;
+}
+
+/**
+ * Runs the heuristics, in order of how much they can be trusted:
+ * material metadata, the geometric gem score, band shape, vertex count and
+ * finally position/size/geometry votes.
+ */
+function classifyByHeuristics(nodes: RingNodesMap): RingClassification {
+  const meshData = analyzeModelData(nodes);
+  const result: RingClassification = { gems: [], primary: [], accent: [], hidden: [], nodes: {}, gemRoles: {} };
+
+  const assign = (node: THREE.Mesh, role: NodeRole, score: number | null, reason: string) => {
+    if (role === 'gem') result.gems.push(node);
+    if (role === 'primary') result.primary.push(node);
+    if (role === 'accent') result.accent.push(node);
+    result.nodes[node.name] = { role, score, reason };
+  };
+  const assignBand = (node: THREE.Mesh, score: number | null, reason: string) => {
+    if (isAccentBandNode(node, meshData)) {
+      assign(node, 'accent', score, `${reason}; separate band or different metal from the shank`);
+    } else {
+      assign(node, 'primary', score, reason);
+    }
+  };
+
+  for (const node of meshData.meshes) {
+    const material = node.material instanceof THREE.Material ? node.material : undefined;
+    if (isGemMaterial(material)) {
+      assign(node, 'gem', null, 'Material metadata indicates gemstone');
+      continue;
+    }
+
+    const gemScore = calculateGemScore(node, meshData);
+    const vertexCount = node.geometry?.attributes?.position?.count || 0;
+
+    if (gemScore > HIGH_GEM_SCORE) {
+      assign(node, 'gem', gemScore, 'Very high gem score');
+    } else if (gemScore < LOW_GEM_SCORE) {
+      assignBand(node, gemScore, 'Low gem score');
+    } else if (isThinRingShape(node, meshData)) {
+      assignBand(node, gemScore, 'Ring-like shape despite moderate gem score');
+    } else if (vertexCount > 6000) {
+      assignBand(node, gemScore, `Very high vertex count (${vertexCount}) with moderate gem score`);
+    } else if (vertexCount < 2000) {
+      assign(node, 'gem', gemScore, `Low vertex count (${vertexCount}) with moderate gem score`);
+    } else {
+      // At least 2 out of 3 criteria should match
+      const votes = [isGemByPosition(node, meshData), isGemBySize(node, meshData), isGemByGeometry(node)]
+        .filter(Boolean).length;
+      if (votes >= 2) {
+        assign(node, 'gem', gemScore, `Position/size/geometry checks matched (${votes}/3)`);
+      } else {
+        assignBand(node, gemScore, `Position/size/geometry checks failed (${votes}/3)`);
+      }
+    }
+  }
+
+  // Every ring has a stone somewhere: when none was found, take the most gem-like parts
+  if (result.gems.length === 0) {
+    const candidates = [...result.primary, ...result.accent]
+      .map(node => ({ node, score: getGemLikelihoodScore(node, meshData) }))
+      .sort((a, b) => b.score - a.score);
+    result.primary = [];
+    result.accent = [];
+
+    // Take the top 20% as gems (or at least one)
+    const gemCount = Math.max(1, Math.floor(candidates.length * 0.2));
+    candidates.forEach(({ node, score }, index) => {
+      if (index < gemCount) {
+        assign(node, 'gem', score, `Fallback: among the ${gemCount} most gem-like parts`);
+      } else {
+        assign(node, 'primary', score, `Fallback: not among the ${gemCount} most gem-like parts`);
+      }
+    });
+  }
+
+  // With several primary parts and no accent, parts in a less common material are the accent
+  if (result.primary.length > 1 && result.accent.length === 0) {
+    const materialGroups = Object.values(groupNodesByMaterial(result.primary))
+      .sort((a, b) => b.length - a.length);
+    for (const group of materialGroups.slice(1)) {
+      for (const node of group) {
+        const { score } = result.nodes[node.name];
+        assign(node, 'accent', score, 'Different material from most of the band');
+      }
+    }
+    result.primary = materialGroups[0];
+  }
+
+  result.gemRoles = assignGemRoles(result.gems);
+  return result;
+}
+
+/**
+ * Moves nodes into the group their manual override pins them to, then assigns
+ * gem roles again since the set of gems may have changed
+ */
+function applyClassificationOverrides(
+  base: RingClassification,
+  overrides: ClassificationOverrides
+): RingClassification {
+  const result: RingClassification = {
+    gems: [...base.gems],
+    primary: [...base.primary],
+    accent: [...base.accent],
+    hidden: [],
+    nodes: { ...base.nodes },
+    gemRoles: {},
+  };
+  const groups = { gem: result.gems, primary: result.primary, accent: result.accent, hidden: result.hidden };
+
+  for (const [nodeName, role] of Object.entries(overrides.nodes)) {
+    const current = result.nodes[nodeName];
+    if (!current) continue;
+
+    const from = groups[current.role];
+    const index = from.findIndex(node => node.name === nodeName);
+    if (index === -1) continue;
+    const [node] = from.splice(index, 1);
+    groups[role].push(node);
+    result.nodes[nodeName] = { role, score: current.score, reason: 'Manual override' };
+  }
+  result.gemRoles = assignGemRoles(result.gems, overrides.gemRoles);
+  return result;
+}
+
+const heuristicCache = new WeakMap<RingNodesMap, RingClassification>();
+
+/**
+ * Classifies every mesh of a ring model as gem, primary band or accent band,
+ * and every gem as center, side or accent stone
+ *
+ * The heuristic result is cached per nodes map, so calling this again for the same
+ * loaded model (e.g. on every render) only re-applies the overrides.
+ *
+ * @param nodes - The nodes map from useGLTF or rhinoObjectToNodes
+ * @param overrides - Manual roles for individual nodes, applied last
+ */
+export function classifyRing(
+  nodes: RingNodesMap,
+  overrides?: ClassificationOverrides | null
+): RingClassification {
+  let base = heuristicCache.get(nodes);
+  if (!base) {
+    base = classifyByHeuristics(nodes);
+    heuristicCache.set(nodes, base);
+  }
+  return overrides ? applyClassificationOverrides(base, overrides) : base;
+}
@@ -0,0 +1,119 @@
+import type { RingModel } from "./catalog";
+import { GEM_ROLES, GEM_ROLE_NAMES, type GemRole } from "./gemRoles";
+import { isGemName, type GemSelection } from "./gems";
+import { getMetalFinish, DEFAULT_FINISH } from "./finishes";
+import { getBandOptions, getDefaultBand, DEFAULT_METAL, type Metal } from "./metals";
+import { formatRingSize } from "./ringSizes";
+import type { Engraving } from "./engraving";
+import type { StackedRingConfig, ViewerConfig } from "./viewerConfig";
+import { getDisplayName } from "./modelMetadata";
+
+/**
+ * A configured ring as handed to the shop: the model with the customer's
+ * choices, checked against what the model offers. Adapters in
+ * lib/commerceAdapter.ts turn it into a cart line or a quote request.
+ */
+
+// What the viewer's checkout button does: add the ring to a cart, or ask for a quote
+export type CommerceAction = "cart" | "quote";
+
+export interface RingConfiguration {
+  category: string;
+  slug: string;
+  name: string;
+  metal: string;
+  accentMetal?: string;
+  finish: string;
+  accentFinish?: string;
+  gems: Partial<Record<GemRole, GemSelection>>;
+  // e.g. "US 7"; the size as modelled when unset
+  ringSize?: string;
+  engraving?: Engraving;
+  // Other rings worn with this one, as "<category>/<slug>"
+  stack?: StackedRingConfig[];
+  // Link that shows the ring exactly as configured
+  viewerUrl: string;
+}
+
+export interface CommerceResult {
+  action: CommerceAction;
+  // Cart, order or quote request id, for the customer to refer to
+  reference: string;
+  // Where to send the customer next, e.g. the shop's checkout
+  redirectUrl?: string;
+}
+
+/**
+ * Checks viewer state from a customer against the model. Metals the model
+ * doesn't offer fall back to its default, and unknown gems are left out.
+ *
+ * @param model - The configured model
+ * @param config - Viewer state, as parsed from the share link form
+ * @param metals - Metals the deployment offers
+ * @param viewerUrl - Link back to the configured ring
+ */
+export function toRingConfiguration(
+  model: RingModel,
+  config: ViewerConfig,
+  metals: Metal[],
+  viewerUrl: string
+): RingConfiguration {
+  const bandOptions = getBandOptions(metals, model.metadata);
+  const isOffered = (name: string | undefined): name is string => bandOptions.some((band) => band.name === name);
+  const gems = Object.fromEntries(
+    GEM_ROLES
+      .filter((role) => isGemName(config.gems?.[role]?.type))
+      .map((role) => [role, config.gems![role]!])
+  );
+
+  return {
+    category: model.category,
+    slug: model.slug,
+    name: getDisplayName(model.slug, model.metadata),
+    metal: getDefaultBand(bandOptions, config.metal, model.metadata?.defaultMetal, DEFAULT_METAL),
+    ...(isOffered(config.accentMetal) && { accentMetal: config.accentMetal }),
+    finish: getMetalFinish(config.finish).name,
+    ...(isOffered(config.accentMetal) && config.accentFinish && { accentFinish: getMetalFinish(config.accentFinish).name }),
+    gems,
+    ...(config.ringSize && { ringSize: formatRingSize(config.ringSize) }),
+    ...(config.engraving?.text && { engraving: config.engraving }),
+    ...(config.stack && {
+      stack: config.stack
+        .filter((ring) => ring.model !== `${model.category}/${model.slug}`)
+        .map((ring) => ({
+          model: ring.model,
+          ...(ring.metal && metals.some((metal) => metal.name === ring.metal) && { metal: ring.metal }),
+        })),
+    }),
+    viewerUrl,
+  };
+}
+
+/**
+ * The configuration as labelled lines, for cart line properties, quote emails
+ * and confirmations
+ */
+export function describeConfiguration(configuration: RingConfiguration): Array<{ label: string; value: string }> {
+  const lines = [
+    { label: "Model", value: `${configuration.name} (${configuration.category}/${configuration.slug})` },
+    { label: "Metal", value: configuration.metal },
+  ];
+  if (configuration.accentMetal) lines.push({ label: "Accent metal", value: configuration.accentMetal });
+  if (configuration.finish !== DEFAULT_FINISH) lines.push({ label: "Finish", value: configuration.finish });
+  if (configuration.accentFinish && configuration.accentFinish !== DEFAULT_FINISH) {
+    lines.push({ label: "Accent finish", value: configuration.accentFinish });
+  }
+  GEM_ROLES.forEach((role) => {
+    const gem = configuration.gems[role];
+    if (gem) lines.push({ label: GEM_ROLE_NAMES[role], value: gem.color ? `${gem.type} (${gem.color})` : gem.type });
+  });
+  if (configuration.ringSize) lines.push({ label: "Ring size", value: configuration.ringSize });
+  if (configuration.engraving) {
+    const { text, font } = configuration.engraving;
+    lines.push({ label: "Engraving", value: font ? `"${text}" in ${font}` : `"${text}"` });
+  }
+  configuration.stack?.forEach((ring) => {
+    lines.push({ label: "Stacked with", value: ring.metal ? `${ring.model} in ${ring.metal}` : ring.model });
+  });
+  return lines;
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import type { RingModel } from './catalog';
+import { describeConfiguration, type CommerceAction, type CommerceResult, type RingConfiguration } from './commerce';
+
+/**
+ * Shop a configured ring is sent to from the viewer's checkout button
+ *
+ * A local JSON file and Shopify's Storefront API are available; another shop
+ * only needs to implement this interface and be added to createCommerceAdapter.
+ */
+export interface CommerceAdapter {
+  // Whether the button adds to a cart or asks for a quote
+  readonly action: CommerceAction;
+  submit(configuration: RingConfiguration, model: RingModel): Promise<CommerceResult>;
+}
+
+/**
+ * A failure the customer should hear about, e.g. the shop rejecting the cart
+ */
+export class CommerceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommerceError';
+  }
+}
+
+export interface StoredQuoteRequest {
+  reference: string;
+  createdAt: string;
+  configuration: RingConfiguration;
+}
+
+/**
+ * Keeps quote requests in a JSON file, for deployments without a shop and for development
+ */
+export class LocalCommerceAdapter implements CommerceAdapter {
+  readonly action = 'quote';
+  // Requests are appended one at a time so concurrent ones don't overwrite each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string = join(process.cwd(), 'data/quote-requests.json')) {}
+
+  submit(configuration: RingConfiguration): Promise<CommerceResult> {
+    const request: StoredQuoteRequest = {
+      reference: randomUUID().slice(0, 8).toUpperCase(),
+      createdAt: new Date().toISOString(),
+      configuration,
+    };
+    const write = this.queue.then(async () => {
+      const requests = await this.read();
+      requests.push(request);
+      await mkdir(dirname(this.file), { recursive: true });
+      await writeFile(this.file, JSON.stringify(requests, null, 2));
+    });
+    this.queue = write.catch(() => undefined);
+    return write.then(() => ({ action: this.action, reference: request.reference }));
+  }
+
+  private async read(): Promise<StoredQuoteRequest[]> {
+    try {
+      const requests = JSON.parse(await readFile(this.file, 'utf8'));
+      return Array.isArray(requests) ? requests : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+interface ShopifyOptions {
+  // e.g. "masina-diamonds.myshopify.com"
+  storeDomain: string;
+  storefrontAccessToken: string;
+  apiVersion: string;
+}
+
+interface CartCreateResponse {
+  data?: {
+    cartCreate: {
+      cart: { id: string; checkoutUrl: string } | null;
+      userErrors: Array<{ message: string }>;
+    } | null;
+  };
+  errors?: Array<{ message: string }>;
+}
+
+const CART_CREATE_MUTATION = `
+  mutation cartCreate($input: CartInput!) {
+    cartCreate(input: $input) {
+      cart { id checkoutUrl }
+      userErrors { message }
+    }
+  }
+`;
+
+/**
+ * Creates a Shopify cart with the ring and sends the customer to its checkout.
+ * The product variant comes from the model's `shopifyVariantId` metadata, and
+ * the choices are added to the cart line as properties.
+ */
+export class ShopifyCommerceAdapter implements CommerceAdapter {
+  readonly action = 'cart';
+
+  constructor(private readonly options: ShopifyOptions) {}
+
+  async submit(configuration: RingConfiguration, model: RingModel): Promise<CommerceResult> {
+    const merchandiseId = this.getVariantId(configuration, model);
+    if (!merchandiseId) {
+      throw new CommerceError(`${configuration.name} in ${configuration.metal} can't be ordered online`);
+    }
+
+    const attributes = [
+      ...describeConfiguration(configuration)
+        .filter(({ label }) => label !== 'Model')
+        .map(({ label, value }) => ({ key: label, value })),
+      { key: 'Preview', value: configuration.viewerUrl },
+    ];
+    const { storeDomain, storefrontAccessToken, apiVersion } = this.options;
+    const response = await fetch(`https://${storeDomain}/api/${apiVersion}/graphql.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopify-Storefront-Access-Token': storefrontAccessToken,
+      },
+      body: JSON.stringify({
+        query: CART_CREATE_MUTATION,
+        variables: { input: { lines: [{ merchandiseId, quantity: 1, attributes }] } },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Shopify Storefront API responded with ${response.status}`);
+    }
+
+    const { data, errors } = await response.json() as CartCreateResponse;
+    if (errors?.length) {
+      throw new Error(`Shopify Storefront API error: ${errors.map((error) => error.message).join('; ')}`);
+    }
+    const userErrors = data?.cartCreate?.userErrors ?? [];
+    if (userErrors.length) {
+      throw new CommerceError(userErrors.map((error) => error.message).join('; '));
+    }
+    const cart = data?.cartCreate?.cart;
+    if (!cart) {
+      throw new Error('Shopify Storefront API returned no cart');
+    }
+    return { action: this.action, reference: cart.id, redirectUrl: cart.checkoutUrl };
+  }
+
+  // A variant per metal, or one for the model; numeric ids are expanded to Shopify's global ids
+  private getVariantId(configuration: RingConfiguration, model: RingModel): string | undefined {
+    const variants = model.metadata?.shopifyVariantId;
+    const id = typeof variants === 'string' ? variants : variants?.[configuration.metal];
+    if (!id) return undefined;
+    return /^\d+$/.test(id) ? `gid://shopify/ProductVariant/${id}` : id;
+  }
+}
+
+const DEFAULT_SHOPIFY_API_VERSION = '2024-10';
+
+/**
+ * Creates the adapter selected by the COMMERCE_ADAPTER environment variable
+ */
+export function createCommerceAdapter(): CommerceAdapter {
+  const adapter = process.env.COMMERCE_ADAPTER || 'local';
+  switch (adapter) {
+    case 'local':
+      return new LocalCommerceAdapter(
+        process.env.COMMERCE_LOCAL_FILE ? resolve(process.env.COMMERCE_LOCAL_FILE) : undefined
+      );
+    case 'shopify': {
+      const storeDomain = process.env.SHOPIFY_STORE_DOMAIN;
+      const storefrontAccessToken = process.env.SHOPIFY_STOREFRONT_ACCESS_TOKEN;
+      if (!storeDomain || !storefrontAccessToken) {
+        throw new Error('The shopify commerce adapter needs SHOPIFY_STORE_DOMAIN and SHOPIFY_STOREFRONT_ACCESS_TOKEN');
+      }
+      return new ShopifyCommerceAdapter({
+        storeDomain,
+        storefrontAccessToken,
+        apiVersion: process.env.SHOPIFY_STOREFRONT_API_VERSION || DEFAULT_SHOPIFY_API_VERSION,
+      });
+    }
+    default:
+      throw new Error(`Unknown commerce adapter "${adapter}"`);
+  }
+}
+
+let commerceAdapter: CommerceAdapter | null = null;
+
+export function getCommerceAdapter(): CommerceAdapter {
+  if (!commerceAdapter) commerceAdapter = createCommerceAdapter();
+  return commerceAdapter;
+}
@@ -0,0 +1,51 @@
+/**
+ * Rings shown side by side on the compare page, listed in its URL as
+ * /compare?ring=Solitaire/387334&ring=Halo/401223
+ */
+export interface ComparedRingRef {
+  category: string;
+  slug: string;
+}
+
+export const MAX_COMPARED_RINGS = 4;
+
+const RING_PARAM = "ring";
+
+type SearchParamsLike =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+function getAll(params: SearchParamsLike, name: string): string[] {
+  if (params instanceof URLSearchParams) return params.getAll(name);
+  const value = params[name];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Reads the compared rings from the compare page's query parameters, skipping
+ * malformed entries and duplicates and keeping at most MAX_COMPARED_RINGS
+ */
+export function parseComparedRings(params: SearchParamsLike): ComparedRingRef[] {
+  const rings: ComparedRingRef[] = [];
+  for (const value of getAll(params, RING_PARAM)) {
+    // Slugs of .3dm models may contain dots but never slashes
+    const separator = value.lastIndexOf("/");
+    const category = value.slice(0, separator).trim();
+    const slug = value.slice(separator + 1).trim();
+    if (separator < 0 || !category || !slug) continue;
+    if (rings.some((ring) => ring.category === category && ring.slug === slug)) continue;
+    rings.push({ category, slug });
+    if (rings.length === MAX_COMPARED_RINGS) break;
+  }
+  return rings;
+}
+
+export function getCompareUrl(rings: ComparedRingRef[]): string {
+  const params = new URLSearchParams();
+  rings
+    .slice(0, MAX_COMPARED_RINGS)
+    .forEach((ring) => params.append(RING_PARAM, `${ring.category}/${ring.slug}`));
+  const query = params.toString();
+  return query ? `/compare?${query}` : "/compare";
+}
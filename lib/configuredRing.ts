@@ -0,0 +1,79 @@
+import type { NextApiRequest } from 'next';
+import { getModel, getModelByKey, type RingModel } from './catalog';
+import { toRingConfiguration, type RingConfiguration } from './commerce';
+import { loadMetals } from './metalConfig';
+import { absoluteUrl } from './apiV1';
+import { parseViewerConfig, serializeViewerConfig, type ViewerConfig } from './viewerConfig';
+
+/**
+ * Server-side reading of a ring the viewer sends along, for the checkout,
+ * price and lead routes
+ */
+
+export interface StackedRing {
+  model: RingModel;
+  metal?: string;
+}
+
+export interface ConfiguredRing {
+  model: RingModel;
+  config: ViewerConfig;
+  configuration: RingConfiguration;
+  stackedRings: StackedRing[];
+}
+
+/**
+ * Looks up the rings stacked with a model, leaving out the model itself and
+ * rings that are no longer in the catalog
+ */
+export async function getStackedRings(model: RingModel, config: ViewerConfig): Promise<StackedRing[]> {
+  const rings = await Promise.all(
+    (config.stack ?? [])
+      .filter((ring) => ring.model !== `${model.category}/${model.slug}`)
+      .map(async (ring): Promise<StackedRing | null> => {
+        const stackedModel = await getModelByKey(ring.model);
+        return stackedModel ? { model: stackedModel, metal: ring.metal } : null;
+      })
+  );
+  return rings.filter((ring): ring is StackedRing => ring !== null);
+}
+
+/**
+ * Reads a model and the viewer state sent with it
+ *
+ * @param req - The API request, for building absolute links
+ * @param category - Category of the model
+ * @param slug - Route slug of the model
+ * @param query - The viewer state in share link form, as from serializeViewerConfig
+ * @param keepView - Keep the camera angle and hidden parts in the configuration's viewer link
+ * @returns The ring, or null when the model isn't in the catalog
+ */
+export async function resolveConfiguredRing(
+  req: NextApiRequest,
+  category: string,
+  slug: string,
+  query: string,
+  keepView = false
+): Promise<ConfiguredRing | null> {
+  const model = await getModel(category, slug);
+  if (!model) return null;
+
+  const parsed = parseViewerConfig(new URLSearchParams(query));
+  const stackedRings = await getStackedRings(model, parsed);
+  const config: ViewerConfig = {
+    ...parsed,
+    ...(parsed.stack && {
+      stack: parsed.stack.filter((ring) =>
+        ring.model === `${model.category}/${model.slug}` ||
+        stackedRings.some((stacked) => `${stacked.model.category}/${stacked.model.slug}` === ring.model)
+      ),
+    }),
+    ...(!keepView && { camera: undefined, hiddenNodes: undefined }),
+  };
+  const viewerUrl = absoluteUrl(
+    req,
+    `/${encodeURIComponent(category)}/${encodeURIComponent(slug)}?${serializeViewerConfig(config)}`
+  );
+  const configuration = toRingConfiguration(model, config, await loadMetals(), viewerUrl);
+  return { model, config, configuration, stackedRings };
+}
@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import type { RingFrame } from './gemScoring';
+
+/**
+ * Engraving text along the inside of the band, measured in millimetres like the models
+ */
+
+export interface Engraving {
+  text: string;
+  font: string;
+}
+
+export interface EngravingFont {
+  name: string;
+  // .woff/.ttf file; the text renderer can't read .woff2
+  url: string;
+}
+
+// Where engraving fonts are fetched from; served from public/fonts/engraving by default.
+// Override with NEXT_PUBLIC_ENGRAVING_FONT_PATH to serve them from a CDN.
+const ENGRAVING_FONT_PATH = process.env.NEXT_PUBLIC_ENGRAVING_FONT_PATH || "/fonts/engraving/";
+
+export const ENGRAVING_FONTS: EngravingFont[] = [
+  { name: "Classic", url: `${ENGRAVING_FONT_PATH}eb-garamond-latin-400-normal.woff` },
+  { name: "Script", url: `${ENGRAVING_FONT_PATH}great-vibes-latin-400-normal.woff` },
+  { name: "Modern", url: `${ENGRAVING_FONT_PATH}montserrat-latin-400-normal.woff` },
+  { name: "Block", url: `${ENGRAVING_FONT_PATH}roboto-mono-latin-400-normal.woff` },
+];
+
+export const DEFAULT_ENGRAVING_FONT = "Classic";
+
+// Letter height a jeweller would engrave, shrunk on bands narrower than twice this
+export const ENGRAVING_FONT_SIZE = 1.2;
+// Average letter width relative to the height, for the length limit
+const AVERAGE_CHARACTER_WIDTH = 0.6;
+// Share of the inner circumference the text may cover, leaving the part under the head free
+const ENGRAVING_ARC_FRACTION = 0.45;
+// Upper bound however large the ring, also applied to text from shared links
+export const MAX_ENGRAVING_LENGTH = 40;
+// Keeps the text just off the metal so it doesn't flicker against it
+const SURFACE_OFFSET = 0.02;
+
+export function getEngravingFont(name: string | undefined): EngravingFont {
+  return (
+    ENGRAVING_FONTS.find((font) => font.name === name) ??
+    ENGRAVING_FONTS.find((font) => font.name === DEFAULT_ENGRAVING_FONT)!
+  );
+}
+
+/**
+ * How many characters fit along the inside of a band with this inner diameter
+ */
+export function getMaxEngravingLength(innerDiameter: number): number {
+  const arcLength = innerDiameter * Math.PI * ENGRAVING_ARC_FRACTION;
+  return Math.min(MAX_ENGRAVING_LENGTH, Math.floor(arcLength / (ENGRAVING_FONT_SIZE * AVERAGE_CHARACTER_WIDTH)));
+}
+
+// Engraving is a single line of printable text
+export function sanitizeEngravingText(text: string, maxLength: number = MAX_ENGRAVING_LENGTH): string {
+  return text.replace(/[\u0000-\u001f\u007f]/g, " ").slice(0, maxLength);
+}
+
+// Bounding box in the space the node is rendered in
+function getLocalBox(mesh: THREE.Mesh): THREE.Box3 {
+  if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+  mesh.updateMatrix();
+  return mesh.geometry.boundingBox!.clone().applyMatrix4(mesh.matrix);
+}
+
+export interface EngravingPlacement {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  // Radius of the surface the text curves along
+  radius: number;
+  fontSize: number;
+}
+
+/**
+ * Places the engraving on the inside of the band, opposite the stones, reading
+ * from inside the ring with its letters upright along the finger axis
+ *
+ * @param frame - The ring frame from getRingFrame
+ * @param gems - Gem nodes; the text goes on the side of the band away from them
+ * @param innerDiameter - Current inner diameter, which differs from the frame's after resizing
+ */
+export function getEngravingPlacement(
+  frame: RingFrame,
+  gems: THREE.Mesh[],
+  innerDiameter: number
+): EngravingPlacement {
+  // Direction from the finger axis towards the stones, flattened onto the ring's plane
+  const towardsStones = new THREE.Vector3();
+  for (const gem of gems) {
+    towardsStones.add(getLocalBox(gem).getCenter(new THREE.Vector3())).sub(frame.center);
+  }
+  towardsStones.addScaledVector(frame.axis, -towardsStones.dot(frame.axis));
+  if (towardsStones.lengthSq() === 0) {
+    // No stones: any direction perpendicular to the axis will do
+    towardsStones.set(1, 0, 0).cross(frame.axis);
+    if (towardsStones.lengthSq() === 0) towardsStones.set(0, 1, 0).cross(frame.axis);
+  }
+  const outwards = towardsStones.normalize().negate();
+
+  // The text faces the axis (+z inwards), with its letters along the axis (+y)
+  const textZ = outwards.clone().negate();
+  const textY = frame.axis.clone().normalize();
+  const textX = new THREE.Vector3().crossVectors(textY, textZ);
+  const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(textX, textY, textZ)
+  );
+
+  const radius = innerDiameter / 2 - SURFACE_OFFSET;
+  const bandWidth = Math.abs(getLocalBox(frame.shank).getSize(new THREE.Vector3()).dot(textY));
+
+  return {
+    position: frame.center.clone().addScaledVector(outwards, radius),
+    quaternion,
+    radius,
+    fontSize: Math.min(ENGRAVING_FONT_SIZE, bandWidth / 2),
+  };
+}
@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import type { RingFrame } from './gemScoring';
+
+/**
+ * Surface finishes for the band metal, drawn with procedural roughness and
+ * normal maps so no texture files have to be shipped with the models.
+ *
+ * The GLBs have no texture coordinates, so ensureRingUVs unrolls each band part
+ * around the finger axis: u runs around the band and v across it, both in mm.
+ * Brushed lines follow u, the way bands are brushed on a lathe.
+ */
+
+export type FinishPattern = 'satin' | 'brushed' | 'hammered';
+
+export interface MetalFinish {
+  name: string;
+  // Replaces the metal's roughness; null keeps it
+  roughness: number | null;
+  // Stretches highlights along the band (0 to 1); needs MeshPhysicalMaterial
+  anisotropy: number;
+  pattern: FinishPattern | null;
+  // Strength of the pattern's surface detail
+  normalScale: number;
+}
+
+export const METAL_FINISHES: MetalFinish[] = [
+  { name: 'High Polish', roughness: null, anisotropy: 0, pattern: null, normalScale: 0 },
+  { name: 'Satin', roughness: 0.4, anisotropy: 0, pattern: 'satin', normalScale: 0.15 },
+  { name: 'Brushed', roughness: 0.3, anisotropy: 0.8, pattern: 'brushed', normalScale: 0.3 },
+  { name: 'Hammered', roughness: 0.15, anisotropy: 0, pattern: 'hammered', normalScale: 1 },
+];
+
+export const DEFAULT_FINISH = 'High Polish';
+
+export function getMetalFinish(name: string | undefined): MetalFinish {
+  return (
+    METAL_FINISHES.find((finish) => finish.name === name) ??
+    METAL_FINISHES.find((finish) => finish.name === DEFAULT_FINISH)!
+  );
+}
+
+const TEXTURE_SIZE = 256;
+
+// Millimetres of band covered by one repeat of each pattern. Band lengths are
+// rounded to a multiple of all of them, so every pattern closes around the ring.
+const UV_LENGTH_STEP = 12;
+const PATTERN_TILE_SIZE: Record<FinishPattern, number> = {
+  satin: 1.5,
+  brushed: 3,
+  hammered: 4,
+};
+
+// Small seeded generator, so every visitor sees the same pattern
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Height field in [0, 1] that tiles seamlessly, indexed [y * TEXTURE_SIZE + x]
+function createHeightField(pattern: FinishPattern): Float32Array {
+  const random = createRandom(pattern.length * 7919);
+  const size = TEXTURE_SIZE;
+  const heights = new Float32Array(size * size);
+
+  if (pattern === 'brushed') {
+    // Fine grooves across the band that run all the way around it
+    const grooves = Array.from({ length: size }, () => random());
+    for (let y = 0; y < size; y++) {
+      const groove = (grooves[y] + grooves[(y + 1) % size] * 0.5) / 1.5;
+      for (let x = 0; x < size; x++) {
+        heights[y * size + x] = groove * 0.9 + random() * 0.1;
+      }
+    }
+  } else if (pattern === 'satin') {
+    // Even, fine grain in every direction
+    const noise = Array.from({ length: size * size }, () => random());
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        let sum = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            sum += noise[((y + dy + size) % size) * size + ((x + dx + size) % size)];
+          }
+        }
+        heights[y * size + x] = sum / 9;
+      }
+    }
+  } else {
+    // Overlapping round dents of different sizes, one per cell of a jittered grid
+    const cells = 6;
+    const dents = Array.from({ length: cells * cells }, (_, index) => ({
+      x: ((index % cells) + 0.2 + random() * 0.6) / cells,
+      y: (Math.floor(index / cells) + 0.2 + random() * 0.6) / cells,
+      radius: (0.7 + random() * 0.4) / cells,
+    }));
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        let depth = 0;
+        for (const dent of dents) {
+          // Wrapped distance, so dents at the edges continue on the other side
+          const dx = Math.abs(x / size - dent.x);
+          const dy = Math.abs(y / size - dent.y);
+          const distance = Math.hypot(Math.min(dx, 1 - dx), Math.min(dy, 1 - dy)) / dent.radius;
+          if (distance < 1) depth = Math.max(depth, Math.sqrt(1 - distance * distance));
+        }
+        heights[y * size + x] = 1 - depth;
+      }
+    }
+  }
+  return heights;
+}
+
+function createDataTexture(data: Uint8Array, pattern: FinishPattern): THREE.DataTexture {
+  const texture = new THREE.DataTexture(data, TEXTURE_SIZE, TEXTURE_SIZE, THREE.RGBAFormat);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.setScalar(1 / PATTERN_TILE_SIZE[pattern]);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  texture.generateMipmaps = true;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+export interface FinishTextures {
+  normalMap: THREE.DataTexture;
+  // Multiplies the material's roughness (green channel)
+  roughnessMap: THREE.DataTexture;
+}
+
+const textureCache = new Map<FinishPattern, FinishTextures>();
+
+/**
+ * The normal and roughness maps of a pattern, generated on first use and shared
+ * by every material with that finish
+ */
+export function getFinishTextures(pattern: FinishPattern): FinishTextures {
+  const cached = textureCache.get(pattern);
+  if (cached) return cached;
+
+  const size = TEXTURE_SIZE;
+  const heights = createHeightField(pattern);
+  const height = (x: number, y: number) => heights[((y + size) % size) * size + ((x + size) % size)];
+  const normals = new Uint8Array(size * size * 4);
+  const roughness = new Uint8Array(size * size * 4);
+  const normal = new THREE.Vector3();
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const index = (y * size + x) * 4;
+      // Slopes from the neighbouring heights, scaled so a full-depth dent is steep
+      normal.set(
+        (height(x - 1, y) - height(x + 1, y)) * 8,
+        (height(x, y - 1) - height(x, y + 1)) * 8,
+        1
+      ).normalize();
+      normals[index] = (normal.x * 0.5 + 0.5) * 255;
+      normals[index + 1] = (normal.y * 0.5 + 0.5) * 255;
+      normals[index + 2] = (normal.z * 0.5 + 0.5) * 255;
+      normals[index + 3] = 255;
+
+      // Grooves and dent edges scatter a little more light than the surface around them
+      const value = (0.75 + 0.25 * (1 - height(x, y))) * 255;
+      roughness[index] = value;
+      roughness[index + 1] = value;
+      roughness[index + 2] = value;
+      roughness[index + 3] = 255;
+    }
+  }
+
+  const textures = {
+    normalMap: createDataTexture(normals, pattern),
+    roughnessMap: createDataTexture(roughness, pattern),
+  };
+  textureCache.set(pattern, textures);
+  return textures;
+}
+
+/**
+ * Gives a band part texture coordinates unrolled around the finger axis, if it
+ * doesn't have any yet
+ *
+ * The attribute is added to the node's own geometry, so clones made afterwards
+ * (e.g. when resizing the ring) keep it.
+ */
+export function ensureRingUVs(mesh: THREE.Mesh, frame: RingFrame): void {
+  const geometry = mesh.geometry;
+  if (geometry.attributes.uv || !geometry.attributes.position) return;
+
+  // Two directions perpendicular to the axis to measure angles against
+  const side = new THREE.Vector3(1, 0, 0);
+  if (Math.abs(side.dot(frame.axis)) > 0.9) side.set(0, 1, 0);
+  const right = side.sub(frame.axis.clone().multiplyScalar(side.dot(frame.axis))).normalize();
+  const forward = new THREE.Vector3().crossVectors(frame.axis, right);
+
+  const circumference = 2 * Math.PI * frame.innerRadius;
+  const uLength = Math.max(1, Math.round(circumference / UV_LENGTH_STEP)) * UV_LENGTH_STEP;
+
+  mesh.updateMatrix();
+  const positions = geometry.attributes.position;
+  const uvs = new Float32Array(positions.count * 2);
+  const point = new THREE.Vector3();
+  for (let vertex = 0; vertex < positions.count; vertex++) {
+    point.fromBufferAttribute(positions, vertex).applyMatrix4(mesh.matrix).sub(frame.center);
+    const angle = Math.atan2(point.dot(forward), point.dot(right));
+    uvs[vertex * 2] = (angle / (2 * Math.PI)) * uLength;
+    uvs[vertex * 2 + 1] = point.dot(frame.axis);
+  }
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+}
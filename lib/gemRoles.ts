@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+
+/**
+ * Groups the gems of a ring into the stones a customer thinks of separately:
+ * the center stone, the side stones next to it and the small accent (pavé) stones.
+ *
+ * Like classifyRing this only needs the nodes, so it also runs in Node.
+ */
+
+export type GemRole = 'center' | 'side' | 'accent';
+
+export const GEM_ROLES: GemRole[] = ['center', 'side', 'accent'];
+
+// How customers and shop staff refer to each group of stones
+export const GEM_ROLE_NAMES: Record<GemRole, string> = {
+  center: 'Center stone',
+  side: 'Side stones',
+  accent: 'Accent stones',
+};
+
+export interface GemRoleOptions {
+  // Stones at least this fraction of the largest stone's size may be the center stone
+  centerSizeRatio: number;
+  // More center candidates than this means equal stones all around (an eternity band)
+  maxCenterCandidates: number;
+  // Stones at least this fraction of the center stone's size are side stones
+  sideSizeRatio: number;
+  // ...as long as they are within this many center stone sizes of it
+  sideMaxDistance: number;
+}
+
+export const DEFAULT_GEM_ROLE_OPTIONS: GemRoleOptions = {
+  centerSizeRatio: 0.9,
+  maxCenterCandidates: 3,
+  sideSizeRatio: 0.35,
+  sideMaxDistance: 3,
+};
+
+interface GemBounds {
+  gem: THREE.Mesh;
+  center: THREE.Vector3;
+  // Largest dimension of the bounding box
+  size: number;
+}
+
+function getGemBounds(gem: THREE.Mesh): GemBounds {
+  if (!gem.geometry.boundingBox) gem.geometry.computeBoundingBox();
+  gem.updateMatrix();
+  // Local space, the same space RingModel renders nodes in
+  const box = gem.geometry.boundingBox!.clone().applyMatrix4(gem.matrix);
+  const dimensions = box.getSize(new THREE.Vector3());
+  return {
+    gem,
+    center: box.getCenter(new THREE.Vector3()),
+    size: Math.max(dimensions.x, dimensions.y, dimensions.z),
+  };
+}
+
+/**
+ * Assigns every gem a role from its size and position
+ *
+ * The center stone is the largest stone; when two or three stones are about equally
+ * large, the one in the middle of them. Stones close to it in size and position are
+ * side stones, as are the two next largest stones on either side of it when no other
+ * stone is as large as them, and everything else is an accent stone. A ring with more equally large
+ * stones than `maxCenterCandidates` has no center stone, so they are all accents.
+ *
+ * @param gems - The gem nodes from classifyRing
+ * @param overrides - Roles pinned per node name, e.g. from the model's overrides file
+ * @param options - Thresholds, defaulting to DEFAULT_GEM_ROLE_OPTIONS
+ * @returns The role of every gem, keyed by node name
+ */
+export function assignGemRoles(
+  gems: THREE.Mesh[],
+  overrides: Record<string, GemRole> = {},
+  options: Partial<GemRoleOptions> = {}
+): Record<string, GemRole> {
+  const { centerSizeRatio, maxCenterCandidates, sideSizeRatio, sideMaxDistance } = {
+    ...DEFAULT_GEM_ROLE_OPTIONS,
+    ...options,
+  };
+  const roles: Record<string, GemRole> = {};
+  const bounds = gems.filter((gem) => !overrides[gem.name]).map(getGemBounds);
+
+  // A pinned center stone replaces the automatic one
+  const pinnedCenter = gems.find((gem) => overrides[gem.name] === 'center');
+  let center: GemBounds | undefined = pinnedCenter && getGemBounds(pinnedCenter);
+
+  if (!center && bounds.length > 0) {
+    const largestSize = Math.max(...bounds.map(({ size }) => size));
+    const candidates = bounds.filter(({ size }) => size >= largestSize * centerSizeRatio);
+    if (candidates.length <= maxCenterCandidates) {
+      const middle = candidates
+        .reduce((sum, { center }) => sum.add(center), new THREE.Vector3())
+        .divideScalar(candidates.length);
+      center = candidates.reduce((closest, candidate) =>
+        candidate.center.distanceTo(middle) < closest.center.distanceTo(middle) ? candidate : closest
+      );
+      roles[center.gem.name] = 'center';
+    }
+  }
+
+  // A pair of stones larger than all the others, on either side of the center stone,
+  // are its side stones however small they are next to it, as in a three-stone ring
+  const others = bounds.filter((stone) => stone !== center);
+  const nextSize = Math.max(...others.map(({ size }) => size));
+  const nextLargest = others.filter(({ size }) => size >= nextSize * centerSizeRatio);
+  const flanksCenter = center !== undefined && nextLargest.length === 2 &&
+    nextLargest[0].center.distanceTo(nextLargest[1].center) >
+      Math.max(...nextLargest.map((stone) => stone.center.distanceTo(center!.center)));
+  const flankingPair = flanksCenter ? nextLargest : [];
+
+  for (const stone of others) {
+    const isSide = center !== undefined &&
+      (stone.size >= center.size * sideSizeRatio || flankingPair.includes(stone)) &&
+      stone.center.distanceTo(center.center) <= center.size * sideMaxDistance;
+    roles[stone.gem.name] = isSide ? 'side' : 'accent';
+  }
+
+  for (const gem of gems) {
+    if (overrides[gem.name]) roles[gem.name] = overrides[gem.name];
+  }
+  return roles;
+}
@@ -0,0 +1,389 @@
+import * as THREE from 'three';
+import { ConvexHull } from 'three/examples/jsm/math/ConvexHull.js';
+
+/**
+ * Geometric scoring used by RingModel to tell gems from metal parts when a
+ * model's materials don't say which is which.
+ *
+ * All measurements are taken in the space the viewer renders nodes in: each
+ * node's own position/rotation/scale applied to its geometry.
+ */
+
+/**
+ * The ring's shank: the largest mesh, which every other part is measured against
+ */
+export interface RingFrame {
+  shank: THREE.Mesh;
+  center: THREE.Vector3;
+  // Unit vector along the finger
+  axis: THREE.Vector3;
+  // Distances from the axis to the inside and outside of the shank
+  innerRadius: number;
+  outerRadius: number;
+}
+
+export interface ModelData {
+  averageY: number;
+  minY: number;
+  maxY: number;
+  centerX: number;
+  centerZ: number;
+  avgDistanceFromCenter: number;
+  averageVolume: number;
+  meshes: THREE.Mesh[];
+  ring: RingFrame | null;
+}
+
+/**
+ * Shape measurements of a single mesh, each normalised to 0-1 where it makes sense
+ */
+export interface GeometryFeatures {
+  vertexCount: number;
+  faceCount: number;
+  // Vertices per triangle: ~3 for flat-shaded facets, ~0.5 for smooth metal surfaces
+  vertexFaceRatio: number;
+  // Share of triangles whose vertex normals all match the face normal, i.e. flat facets
+  facetPlanarity: number;
+  // Mesh volume over convex hull volume; 1 for a cut stone, low for a shank with a hole
+  convexity: number;
+  // Shortest over longest bounding box side
+  aspect: number;
+}
+
+const MAX_HULL_POINTS = 5000;
+const MIN_GEM_FACES = 12;
+const FLAT_NORMAL_COS = Math.cos(THREE.MathUtils.degToRad(5));
+// Cut stones measure above 0.99
+const MAX_SHANK_CONVEXITY = 0.9;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Maps value linearly from [low, high] onto [0, 1]
+const ramp = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+function getLocalBox(mesh: THREE.Mesh): THREE.Box3 {
+  if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+  mesh.updateMatrix();
+  return mesh.geometry.boundingBox!.clone().applyMatrix4(mesh.matrix);
+}
+
+function getBoxVolume(box: THREE.Box3): number {
+  const size = box.getSize(new THREE.Vector3());
+  return size.x * size.y * size.z;
+}
+
+function getFaceCount(geometry: THREE.BufferGeometry): number {
+  return Math.floor((geometry.index?.count ?? geometry.attributes.position.count) / 3);
+}
+
+function getHullVolume(points: THREE.Vector3[]): number {
+  if (points.length < 4) return 0;
+  try {
+    const hull = new ConvexHull().setFromPoints(points);
+    // Sum of the cones from the origin to every hull face
+    return hull.faces.reduce((volume, face) => volume + face.area * face.normal.dot(face.midpoint) / 3, 0);
+  } catch {
+    // Coplanar or collinear points have no hull
+    return 0;
+  }
+}
+
+const featureCache = new WeakMap<THREE.BufferGeometry, GeometryFeatures>();
+
+/**
+ * Measures a mesh's geometry; results are cached per geometry
+ */
+export function getGeometryFeatures(mesh: THREE.Mesh): GeometryFeatures {
+  const geometry = mesh.geometry;
+  const cached = featureCache.get(geometry);
+  if (cached) return cached;
+
+  const positions = geometry.attributes.position;
+  const normals = geometry.attributes.normal;
+  const index = geometry.index;
+  const vertexCount = positions?.count ?? 0;
+  const faceCount = positions ? getFaceCount(geometry) : 0;
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const faceNormal = new THREE.Vector3();
+  const vertexNormal = new THREE.Vector3();
+  let signedVolume = 0;
+  let flatFaces = 0;
+
+  for (let face = 0; face < faceCount; face++) {
+    const ia = index ? index.getX(face * 3) : face * 3;
+    const ib = index ? index.getX(face * 3 + 1) : face * 3 + 1;
+    const ic = index ? index.getX(face * 3 + 2) : face * 3 + 2;
+    a.fromBufferAttribute(positions, ia);
+    b.fromBufferAttribute(positions, ib);
+    c.fromBufferAttribute(positions, ic);
+
+    signedVolume += a.dot(faceNormal.copy(b).cross(c)) / 6;
+
+    if (!normals) continue;
+    THREE.Triangle.getNormal(a, b, c, faceNormal);
+    const isFlat = [ia, ib, ic].every(vertex =>
+      vertexNormal.fromBufferAttribute(normals, vertex).normalize().dot(faceNormal) > FLAT_NORMAL_COS
+    );
+    if (isFlat) flatFaces++;
+  }
+
+  // Large meshes are sampled; the hull of every few vertices is close enough
+  const step = Math.max(1, Math.ceil(vertexCount / MAX_HULL_POINTS));
+  const hullPoints: THREE.Vector3[] = [];
+  for (let vertex = 0; vertex < vertexCount; vertex += step) {
+    hullPoints.push(new THREE.Vector3().fromBufferAttribute(positions, vertex));
+  }
+  const hullVolume = getHullVolume(hullPoints);
+
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+  const longest = Math.max(size.x, size.y, size.z);
+
+  const features: GeometryFeatures = {
+    vertexCount,
+    faceCount,
+    vertexFaceRatio: faceCount > 0 ? vertexCount / faceCount : 0,
+    facetPlanarity: faceCount > 0 ? flatFaces / faceCount : 0,
+    // Open or oddly wound meshes can come out above 1
+    convexity: hullVolume > 0 ? clamp01(Math.abs(signedVolume) / hullVolume) : 0,
+    aspect: longest > 0 ? Math.min(size.x, size.y, size.z) / longest : 0,
+  };
+  featureCache.set(geometry, features);
+  return features;
+}
+
+/**
+ * Finds the shank and the ring's axis, center and radii
+ *
+ * The shank is the mesh with the largest bounding box, leaving out convex ones: a
+ * big center stone can outsize a band modelled in several pieces, but metal that
+ * goes around the finger never is convex. Its thinnest box side runs along the
+ * finger, and its vertices give the inner and outer radius.
+ */
+export function getRingFrame(meshes: THREE.Mesh[]): RingFrame | null {
+  const withGeometry = meshes.filter(mesh => mesh.geometry?.attributes?.position);
+  const metal = withGeometry.filter(mesh => getGeometryFeatures(mesh).convexity < MAX_SHANK_CONVEXITY);
+  let shank: THREE.Mesh | null = null;
+  let shankBox: THREE.Box3 | null = null;
+  let largestVolume = 0;
+  for (const mesh of metal.length > 0 ? metal : withGeometry) {
+    const box = getLocalBox(mesh);
+    const volume = getBoxVolume(box);
+    if (volume > largestVolume) {
+      largestVolume = volume;
+      shank = mesh;
+      shankBox = box;
+    }
+  }
+  if (!shank || !shankBox) return null;
+
+  const center = shankBox.getCenter(new THREE.Vector3());
+  const size = shankBox.getSize(new THREE.Vector3());
+  const axis = new THREE.Vector3();
+  const axisIndex = size.x <= size.y && size.x <= size.z ? 0 : size.y <= size.z ? 1 : 2;
+  axis.setComponent(axisIndex, 1);
+
+  const positions = shank.geometry.attributes.position;
+  const step = Math.max(1, Math.ceil(positions.count / MAX_HULL_POINTS));
+  const point = new THREE.Vector3();
+  let innerRadius = Infinity;
+  let outerRadius = 0;
+  for (let vertex = 0; vertex < positions.count; vertex += step) {
+    point.fromBufferAttribute(positions, vertex).applyMatrix4(shank.matrix);
+    const radius = distanceFromAxis(point, center, axis);
+    innerRadius = Math.min(innerRadius, radius);
+    outerRadius = Math.max(outerRadius, radius);
+  }
+
+  return { shank, center, axis, innerRadius, outerRadius };
+}
+
+function distanceFromAxis(point: THREE.Vector3, center: THREE.Vector3, axis: THREE.Vector3): number {
+  const offset = point.clone().sub(center);
+  return offset.sub(axis.clone().multiplyScalar(offset.dot(axis))).length();
+}
+
+/**
+ * Gathers the model-wide baselines the classification heuristics compare nodes against
+ */
+export function analyzeModelData(nodes: { [key: string]: THREE.Mesh | THREE.Object3D }): ModelData {
+  // Extract all meshes; isMesh rather than instanceof, so nodes from another copy of three count too
+  const meshes = Object.values(nodes).filter(node => (node as THREE.Mesh).isMesh) as THREE.Mesh[];
+
+  if (meshes.length === 0) {
+    return { averageY: 0, maxY: 0, minY: 0, centerX: 0, centerZ: 0, avgDistanceFromCenter: 0, averageVolume: 0, meshes, ring: null };
+  }
+
+  // Calculate properties
+  let totalVolume = 0;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  let sumY = 0;
+  let centerX = 0;
+  let centerZ = 0;
+
+  // First pass - get center positions
+  meshes.forEach(mesh => {
+    // Use world position
+    const position = new THREE.Vector3();
+    mesh.getWorldPosition(position);
+
+    centerX += position.x;
+    centerZ += position.z;
+    minY = Math.min(minY, position.y);
+    maxY = Math.max(maxY, position.y);
+    sumY += position.y;
+  });
+
+  centerX /= meshes.length;
+  centerZ /= meshes.length;
+  const averageY = sumY / meshes.length;
+
+  // Second pass - calculate volume and distance from center
+  let totalDistanceFromCenter = 0;
+
+  meshes.forEach(mesh => {
+    // Get bounding box
+    const box = new THREE.Box3().setFromObject(mesh);
+
+    // Calculate approximate volume
+    totalVolume += getBoxVolume(box);
+
+    // Calculate distance from center
+    const position = new THREE.Vector3();
+    mesh.getWorldPosition(position);
+
+    const distanceFromCenter = Math.sqrt(
+      Math.pow(position.x - centerX, 2) +
+      Math.pow(position.z - centerZ, 2)
+    );
+
+    totalDistanceFromCenter += distanceFromCenter;
+  });
+
+  const averageVolume = totalVolume / meshes.length;
+  const avgDistanceFromCenter = totalDistanceFromCenter / meshes.length;
+
+  return {
+    averageY,
+    minY,
+    maxY,
+    centerX,
+    centerZ,
+    avgDistanceFromCenter,
+    averageVolume,
+    meshes,
+    ring: getRingFrame(meshes)
+  };
+}
+
+/**
+ * How well a node's position suits a stone: 1 on or beyond the shank, falling to 0
+ * towards the middle of the finger hole, where no stone can sit
+ */
+function getPositionScore(node: THREE.Mesh, ring: RingFrame | null): number {
+  if (!ring) return 0.5;
+  if (node === ring.shank) return 0;
+  const center = getLocalBox(node).getCenter(new THREE.Vector3());
+  return ramp(distanceFromAxis(center, ring.center, ring.axis), ring.innerRadius * 0.5, ring.innerRadius);
+}
+
+/**
+ * Scores how likely a node is to be a gem, from 0 (metal) to 100 (gem)
+ *
+ * Cut stones are exported as flat facets (separate vertices per facet, roughly
+ * three per triangle) and are convex, chunky and sit on or outside the shank.
+ * Metal parts are smooth-shaded, usually concave, and the shank itself wraps
+ * around the finger.
+ *
+ * @param node - The mesh to score
+ * @param meshData - Model baselines from analyzeModelData
+ */
+export function calculateGemScore(node: THREE.Mesh, meshData: ModelData): number {
+  if (!node.geometry?.attributes?.position) return 0;
+  const features = getGeometryFeatures(node);
+  // A handful of triangles is a stray surface or a bead, not a cut stone
+  if (features.faceCount < MIN_GEM_FACES) return 0;
+
+  const facets = ramp(features.vertexFaceRatio, 1.2, 2.2);
+  const planarity = features.facetPlanarity;
+  const convexity = ramp(features.convexity, 0.6, 0.95);
+  const aspect = ramp(features.aspect, 0.15, 0.4);
+  const position = getPositionScore(node, meshData.ring);
+
+  // Flat plates have planar faces and tiny meshes have split vertices, but only
+  // stones have both, so the two are also scored together
+  return 100 * (
+    0.3 * Math.min(facets, planarity) +
+    0.2 * facets +
+    0.2 * planarity +
+    0.1 * convexity +
+    0.1 * aspect +
+    0.1 * position
+  );
+}
+
+/**
+ * Gem score for the fallback ranking, when no node scored as a clear gem
+ *
+ * Adds a preference for parts smaller than the model's average, since the
+ * fallback has to pick the stones out of otherwise similar parts.
+ */
+export function getGemLikelihoodScore(mesh: THREE.Mesh, modelData: ModelData): number {
+  if (!mesh.geometry?.attributes?.position) return 0;
+  const volume = getBoxVolume(getLocalBox(mesh));
+  const relativeSize = modelData.averageVolume > 0 ? volume / modelData.averageVolume : 1;
+  const smallness = 1 - ramp(relativeSize, 0.1, 1);
+  return 0.8 * calculateGemScore(mesh, modelData) + 20 * smallness;
+}
+
+/**
+ * Whether a node is a band in its own right: it goes around the finger axis and
+ * is much narrower along the finger than across
+ */
+export function isThinRingShape(node: THREE.Mesh, meshData: ModelData): boolean {
+  const ring = meshData.ring;
+  if (!ring || !node.geometry?.attributes?.position) return false;
+
+  const box = getLocalBox(node);
+  const size = box.getSize(new THREE.Vector3());
+  const axisIndex = ring.axis.x === 1 ? 0 : ring.axis.y === 1 ? 1 : 2;
+  const inPlane = [0, 1, 2].filter(index => index !== axisIndex);
+
+  // The ring center must lie well inside the node's box, across the finger hole
+  const surroundsAxis = inPlane.every(index =>
+    box.min.getComponent(index) < ring.center.getComponent(index) - ring.innerRadius * 0.5 &&
+    box.max.getComponent(index) > ring.center.getComponent(index) + ring.innerRadius * 0.5
+  );
+  const width = size.getComponent(axisIndex);
+  const diameter = Math.min(...inPlane.map(index => size.getComponent(index)));
+
+  return surroundsAxis && width < diameter * 0.6 && getGeometryFeatures(node).convexity < 0.5;
+}
+
+function isSameMetal(a: THREE.Material | undefined, b: THREE.Material | undefined): boolean {
+  if (!a || !b || a === b) return true;
+  if (a.name && b.name) return a.name === b.name;
+  const colorA = (a as THREE.MeshStandardMaterial).color;
+  const colorB = (b as THREE.MeshStandardMaterial).color;
+  return !colorA || !colorB || colorA.equals(colorB);
+}
+
+/**
+ * Whether a metal node is an accent band rather than part of the primary band
+ *
+ * Accents are either a second band (a separate ring shape next to the shank) or
+ * a part modelled in a different metal from the shank, such as a white gold head.
+ */
+export function isAccentBandNode(node: THREE.Mesh, meshData: ModelData): boolean {
+  const ring = meshData.ring;
+  if (!ring || node === ring.shank) return false;
+  if (isThinRingShape(node, meshData)) return true;
+
+  const material = Array.isArray(node.material) ? undefined : node.material;
+  const shankMaterial = Array.isArray(ring.shank.material) ? undefined : ring.shank.material;
+  return !isSameMetal(material, shankMaterial);
+}
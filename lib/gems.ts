@@ -0,0 +1,130 @@
+/**
+ * Gemstone materials the viewer can render stones with
+ *
+ * `ior` and `aberrationStrength` are tuned for MeshRefractionMaterial, which
+ * exaggerates them slightly so stones read well at viewer scale; the
+ * MeshPhysicalMaterial fallback clamps `ior` to its own maximum of 2.333.
+ */
+export interface GemMaterial {
+  name: string;
+  ior: number;
+  // Chromatic dispersion ("fire"); diamond has far more than colored stones
+  aberrationStrength: number;
+  // Tint applied to the refracted environment
+  color: string;
+  attenuationColor: string;
+  attenuationDistance: number;
+  // Color of the button in the stone selector
+  swatch: string;
+}
+
+export const GEM_MATERIALS: GemMaterial[] = [
+  {
+    name: "Diamond",
+    ior: 2.75,
+    aberrationStrength: 0.01,
+    color: "#ffffff",
+    attenuationColor: "#ffffff",
+    attenuationDistance: 1,
+    swatch: "#f4f7fa",
+  },
+  {
+    name: "Sapphire",
+    ior: 1.77,
+    aberrationStrength: 0.004,
+    color: "#2f5fd0",
+    attenuationColor: "#1c3c9c",
+    attenuationDistance: 0.5,
+    swatch: "#2f5fd0",
+  },
+  {
+    name: "Ruby",
+    ior: 1.77,
+    aberrationStrength: 0.004,
+    color: "#d0213d",
+    attenuationColor: "#9b0f26",
+    attenuationDistance: 0.5,
+    swatch: "#c41e3a",
+  },
+  {
+    name: "Emerald",
+    ior: 1.58,
+    aberrationStrength: 0.003,
+    color: "#2fa866",
+    attenuationColor: "#136b3c",
+    attenuationDistance: 0.6,
+    swatch: "#2e9e5f",
+  },
+  {
+    name: "Morganite",
+    ior: 1.59,
+    aberrationStrength: 0.003,
+    color: "#f4b6b0",
+    attenuationColor: "#e8948c",
+    attenuationDistance: 0.8,
+    swatch: "#f2aea7",
+  },
+  {
+    name: "Yellow Diamond",
+    ior: 2.75,
+    aberrationStrength: 0.01,
+    color: "#ffe58a",
+    attenuationColor: "#f5c842",
+    attenuationDistance: 0.8,
+    swatch: "#fbd85c",
+  },
+  {
+    name: "Pink Diamond",
+    ior: 2.75,
+    aberrationStrength: 0.01,
+    color: "#ffc4d8",
+    attenuationColor: "#f28db2",
+    attenuationDistance: 0.8,
+    swatch: "#f7a8c4",
+  },
+];
+
+export const DEFAULT_GEM = "Diamond";
+
+/**
+ * What the customer picked for one group of stones: a gem type, optionally
+ * tinted with a custom color instead of the gem's own
+ */
+export interface GemSelection {
+  type: string;
+  color?: string;
+}
+
+/**
+ * Looks up a gem material by name, falling back to diamond for unknown names
+ * (e.g. from an old shared link or a model's metadata)
+ */
+export function getGemMaterial(name: string | undefined): GemMaterial {
+  return (
+    GEM_MATERIALS.find((gem) => gem.name === name) ??
+    GEM_MATERIALS.find((gem) => gem.name === DEFAULT_GEM)!
+  );
+}
+
+/**
+ * Resolves a selection to the material to render, with a custom color replacing
+ * the gem's color, attenuation and swatch
+ */
+export function resolveGemMaterial(selection: GemSelection | undefined): GemMaterial {
+  const gem = getGemMaterial(selection?.type);
+  if (!selection?.color) return gem;
+  return {
+    ...gem,
+    color: selection.color,
+    attenuationColor: selection.color,
+    swatch: selection.color,
+  };
+}
+
+/**
+ * Whether a name refers to a gem in the library, so callers can tell a valid
+ * selection from one that would silently fall back to diamond
+ */
+export function isGemName(name: string | undefined): name is string {
+  return GEM_MATERIALS.some((gem) => gem.name === name);
+}
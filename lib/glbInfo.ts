@@ -0,0 +1,74 @@
+import type { CatalogStorage } from './catalogStorage';
+import type { RingModel } from './catalog';
+import type { ClassificationOverrides } from './classificationOverrides';
+import { classifyRing } from './classifyRing';
+import { loadGlbNodes } from './nodeGltf';
+
+export interface ModelPartCounts {
+  meshes: number;
+  gems: number;
+  // Primary and accent band parts together
+  bands: number;
+  accentBands: number;
+  // Parts an override hides in the viewer
+  hidden: number;
+}
+
+/**
+ * Counts the parts of a GLB the way the viewer sees them
+ *
+ * The file is loaded and split by lib/classifyRing.ts, the classifier
+ * RingModel uses, so gems found from their geometry and the model's
+ * classification overrides count too.
+ *
+ * @param buffer - Contents of the .glb file
+ * @param overrides - The model's classification overrides, if any
+ */
+export async function countModelParts(
+  buffer: Buffer,
+  overrides: ClassificationOverrides | null
+): Promise<ModelPartCounts> {
+  const classification = classifyRing(await loadGlbNodes(buffer), overrides);
+  const { gems, primary, accent, hidden } = classification;
+  return {
+    meshes: gems.length + primary.length + accent.length + hidden.length,
+    gems: gems.length,
+    bands: primary.length + accent.length,
+    accentBands: accent.length,
+    hidden: hidden.length,
+  };
+}
+
+const partCountCache = new Map<string, {
+  modifiedAt: number;
+  overrides: ClassificationOverrides | null;
+  counts: Promise<ModelPartCounts | null>;
+}>();
+
+/**
+ * Cached countModelParts for a catalog model; .3dm files aren't analysed and return null
+ *
+ * Results are kept until the file or its overrides change.
+ */
+export function getModelPartCounts(storage: CatalogStorage, model: RingModel): Promise<ModelPartCounts | null> {
+  if (model.format !== 'glb') return Promise.resolve(null);
+
+  const cached = partCountCache.get(model.assetKey);
+  // The catalog hands out the same overrides object until the catalog is rebuilt
+  if (cached && cached.modifiedAt === model.modifiedAt && cached.overrides === model.classificationOverrides) {
+    return cached.counts;
+  }
+
+  const counts = storage.read(model.assetKey)
+    .then((buffer) => buffer ? countModelParts(buffer, model.classificationOverrides) : null)
+    .catch((error) => {
+      console.error("Error analysing model", model.assetKey, error);
+      return null;
+    });
+  partCountCache.set(model.assetKey, {
+    modifiedAt: model.modifiedAt,
+    overrides: model.classificationOverrides,
+    counts,
+  });
+  return counts;
+}
@@ -0,0 +1,168 @@
+import * as THREE from 'three';
+
+/**
+ * Print-quality stills of the viewer's scene, rendered at any size up to
+ * MAX_EXPORT_SIZE regardless of the screen
+ *
+ * The renderer draws the camera's view in tiles no larger than it can handle,
+ * each one supersampled and scaled down into a 2D canvas, which is then
+ * encoded. Each tile is drawn the way the screen is, so tone mapping and
+ * colors match the viewer.
+ */
+
+export type ImageFormat = 'png' | 'webp' | 'jpeg';
+
+export interface ImageExportOptions {
+  width: number;
+  height: number;
+  // Defaults to PNG
+  format?: ImageFormat;
+  // A CSS color, or "transparent" (the default); JPEGs can't be transparent and get white instead
+  background?: string;
+  // Pixels rendered along each side of an output pixel, averaged down; defaults to 2
+  supersampling?: 1 | 2 | 4;
+  // 0 to 1, for WebP and JPEG
+  quality?: number;
+}
+
+export const IMAGE_FORMATS: Record<ImageFormat, { name: string; mimeType: string; extension: string }> = {
+  png: { name: 'PNG', mimeType: 'image/png', extension: 'png' },
+  webp: { name: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+  jpeg: { name: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+};
+
+// 8K, on the longest side
+export const MAX_EXPORT_SIZE = 8192;
+// Largest area the renderer draws in one go; bigger images are put together from tiles
+const MAX_TILE_SIZE = 2048;
+
+/**
+ * Width and height of an image with the given longest side and aspect ratio
+ */
+export function getExportSize(longestSide: number, aspect: number): { width: number; height: number } {
+  return aspect >= 1
+    ? { width: longestSide, height: Math.max(1, Math.round(longestSide / aspect)) }
+    : { width: Math.max(1, Math.round(longestSide * aspect)), height: longestSide };
+}
+
+/**
+ * Draws the scene from the camera's point of view over the whole of a 2D
+ * canvas, on the given background
+ *
+ * The renderer is put back the way it was afterwards and renders one more
+ * frame, so the viewer doesn't flicker.
+ *
+ * @param gl - The viewer's renderer
+ * @param scene - The scene to render
+ * @param camera - The viewer's camera; the drawing keeps its field of view and
+ *   crops or extends the sides for a different aspect ratio
+ * @param context - Canvas to draw on, at the size of the image
+ * @param options - Background and supersampling, as for exportStill
+ */
+export function drawView(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  context: CanvasRenderingContext2D,
+  { background = 'transparent', supersampling = 2 }: Pick<ImageExportOptions, 'background' | 'supersampling'>
+) {
+  if (!(camera instanceof THREE.PerspectiveCamera)) {
+    throw new TypeError('Only the perspective camera of the viewer can be exported');
+  }
+  const { width, height } = context.canvas;
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.clearRect(0, 0, width, height);
+  // The background goes under the tiles rather than into the scene, so the
+  // ring renders the same whatever the background
+  if (background !== 'transparent') {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+
+  const fullWidth = width * supersampling;
+  const fullHeight = height * supersampling;
+  // Tiles line up with whole output pixels
+  const tileSize = Math.floor(Math.min(MAX_TILE_SIZE, gl.capabilities.maxTextureSize) / supersampling) * supersampling;
+
+  const size = gl.getSize(new THREE.Vector2());
+  const pixelRatio = gl.getPixelRatio();
+  const clearColor = gl.getClearColor(new THREE.Color());
+  const clearAlpha = gl.getClearAlpha();
+  const sceneBackground = scene.background;
+  const aspect = camera.aspect;
+  const view = camera.view ? { ...camera.view } : null;
+
+  try {
+    scene.background = null;
+    gl.setClearColor(0x000000, 0);
+    gl.setPixelRatio(1);
+    camera.aspect = width / height;
+    for (let y = 0; y < fullHeight; y += tileSize) {
+      for (let x = 0; x < fullWidth; x += tileSize) {
+        const tileWidth = Math.min(tileSize, fullWidth - x);
+        const tileHeight = Math.min(tileSize, fullHeight - y);
+        // Resizes the drawing buffer only; the canvas keeps its size on the page
+        gl.setSize(tileWidth, tileHeight, false);
+        camera.setViewOffset(fullWidth, fullHeight, x, y, tileWidth, tileHeight);
+        gl.render(scene, camera);
+        context.drawImage(
+          gl.domElement,
+          0, 0, tileWidth, tileHeight,
+          x / supersampling, y / supersampling, tileWidth / supersampling, tileHeight / supersampling
+        );
+      }
+    }
+  } finally {
+    camera.aspect = aspect;
+    if (view) {
+      camera.setViewOffset(view.fullWidth, view.fullHeight, view.offsetX, view.offsetY, view.width, view.height);
+    } else {
+      camera.clearViewOffset();
+    }
+    scene.background = sceneBackground;
+    gl.setClearColor(clearColor, clearAlpha);
+    gl.setPixelRatio(pixelRatio);
+    gl.setSize(size.x, size.y, false);
+    gl.render(scene, camera);
+  }
+}
+
+/**
+ * Renders the scene from the camera's point of view into an image file
+ *
+ * @param gl - The viewer's renderer
+ * @param scene - The scene to render
+ * @param camera - The viewer's camera
+ * @param options - Size, format, background and quality of the image
+ */
+export async function exportStill(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: ImageExportOptions
+): Promise<Blob> {
+  const { width, height, format = 'png', background = 'transparent', supersampling = 2, quality = 0.92 } = options;
+  if (![width, height].every((side) => Number.isInteger(side) && side > 0 && side <= MAX_EXPORT_SIZE)) {
+    throw new RangeError(`Images must be whole numbers of pixels between 1 and ${MAX_EXPORT_SIZE} on each side`);
+  }
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d');
+  if (!context) throw new Error('The browser could not create a canvas for the image');
+  drawView(gl, scene, camera, context, {
+    // JPEGs can't be transparent
+    background: background === 'transparent' && format === 'jpeg' ? '#ffffff' : background,
+    supersampling,
+  });
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error('The browser could not encode the image')),
+      IMAGE_FORMATS[format].mimeType,
+      quality
+    );
+  });
+}
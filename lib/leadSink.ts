@@ -0,0 +1,214 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { describeConfiguration } from './commerce';
+import { formatPriceRange } from './modelMetadata';
+import type { Lead } from './leads';
+
+/**
+ * Where enquiries from the viewer's form end up
+ *
+ * A local JSON file is the default; a webhook and email (through the Resend
+ * API) can be added with LEAD_SINKS. Another destination only needs to
+ * implement this interface and be added to createLeadSink.
+ */
+export interface LeadSink {
+  readonly name: string;
+  save(lead: Lead, snapshot: LeadSnapshot | null): Promise<void>;
+}
+
+// The rendered view the customer saw when sending the form
+export interface LeadSnapshot {
+  mimeType: 'image/jpeg' | 'image/png' | 'image/webp';
+  data: Buffer;
+}
+
+const SNAPSHOT_EXTENSIONS: Record<LeadSnapshot['mimeType'], string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+const SNAPSHOT_PATTERN = /^data:(image\/(?:jpeg|png|webp));base64,([A-Za-z0-9+/=]+)$/;
+export const MAX_SNAPSHOT_BYTES = 3 * 1024 * 1024;
+
+/**
+ * Reads a snapshot sent as a data URL; null when there is none or it isn't a usable image
+ */
+export function parseSnapshot(dataUrl: unknown): LeadSnapshot | null {
+  if (typeof dataUrl !== 'string') return null;
+  const match = SNAPSHOT_PATTERN.exec(dataUrl);
+  if (!match) return null;
+  const data = Buffer.from(match[2], 'base64');
+  if (data.length === 0 || data.length > MAX_SNAPSHOT_BYTES) return null;
+  return { mimeType: match[1] as LeadSnapshot['mimeType'], data };
+}
+
+export function getSnapshotFileName(reference: string, snapshot: LeadSnapshot): string {
+  return `${reference}.${SNAPSHOT_EXTENSIONS[snapshot.mimeType]}`;
+}
+
+const toDataUrl = (snapshot: LeadSnapshot) => `data:${snapshot.mimeType};base64,${snapshot.data.toString('base64')}`;
+
+/**
+ * Appends leads to leads.json in a folder, with each snapshot next to it
+ */
+export class JsonLeadSink implements LeadSink {
+  readonly name = 'json';
+  // Leads are appended one at a time so concurrent ones don't overwrite each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly folder: string = join(process.cwd(), 'data/leads')) {}
+
+  save(lead: Lead, snapshot: LeadSnapshot | null): Promise<void> {
+    const write = this.queue.then(async () => {
+      await mkdir(this.folder, { recursive: true });
+      if (snapshot && lead.snapshot) {
+        await writeFile(join(this.folder, lead.snapshot), snapshot.data);
+      }
+      const leads = await this.read();
+      leads.push(lead);
+      await writeFile(join(this.folder, 'leads.json'), JSON.stringify(leads, null, 2));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async read(): Promise<Lead[]> {
+    try {
+      const leads = JSON.parse(await readFile(join(this.folder, 'leads.json'), 'utf8'));
+      return Array.isArray(leads) ? leads : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Posts each lead as JSON, with the snapshot as a data URL, e.g. to a CRM or automation tool
+ */
+export class WebhookLeadSink implements LeadSink {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string, private readonly secret?: string) {}
+
+  async save(lead: Lead, snapshot: LeadSnapshot | null): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.secret && { Authorization: `Bearer ${this.secret}` }),
+      },
+      body: JSON.stringify({ lead, snapshot: snapshot ? toDataUrl(snapshot) : null }),
+    });
+    if (!response.ok) {
+      throw new Error(`Lead webhook responded with ${response.status}`);
+    }
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Emails each lead to the sales team through the Resend API, with the snapshot attached
+ */
+export class EmailLeadSink implements LeadSink {
+  readonly name = 'email';
+
+  constructor(private readonly options: { apiKey: string; from: string; to: string[] }) {}
+
+  async save(lead: Lead, snapshot: LeadSnapshot | null): Promise<void> {
+    const { contact, configuration, estimate } = lead;
+    const rows = [
+      { label: 'Name', value: contact.name },
+      { label: 'Email', value: contact.email },
+      ...(contact.phone ? [{ label: 'Phone', value: contact.phone }] : []),
+      ...describeConfiguration(configuration),
+      ...(estimate ? [{ label: 'Estimated price', value: formatPriceRange({ min: estimate.total, max: estimate.total, currency: estimate.currency }) }] : []),
+    ];
+    const html = [
+      `<p>${escapeHtml(contact.name)} asked about ${escapeHtml(configuration.name)} (reference ${lead.reference}).</p>`,
+      '<table>',
+      ...rows.map(({ label, value }) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`),
+      '</table>',
+      contact.notes ? `<p>${escapeHtml(contact.notes).replace(/\n/g, '<br>')}</p>` : '',
+      `<p><a href="${escapeHtml(configuration.viewerUrl)}">Open the ring as the customer saw it</a></p>`,
+    ].join('\n');
+
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: this.options.from,
+        to: this.options.to,
+        reply_to: contact.email,
+        subject: `Enquiry ${lead.reference}: ${configuration.name}`,
+        html,
+        ...(snapshot && lead.snapshot && {
+          attachments: [{ filename: lead.snapshot, content: snapshot.data.toString('base64') }],
+        }),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Resend API responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+function createLeadSink(name: string): LeadSink {
+  switch (name) {
+    case 'json':
+      return new JsonLeadSink(process.env.LEAD_JSON_DIR ? resolve(process.env.LEAD_JSON_DIR) : undefined);
+    case 'webhook': {
+      const url = process.env.LEAD_WEBHOOK_URL;
+      if (!url) throw new Error('The webhook lead sink needs LEAD_WEBHOOK_URL');
+      return new WebhookLeadSink(url, process.env.LEAD_WEBHOOK_SECRET || undefined);
+    }
+    case 'email': {
+      const apiKey = process.env.RESEND_API_KEY;
+      const from = process.env.LEAD_EMAIL_FROM;
+      const to = process.env.LEAD_EMAIL_TO?.split(',').map((address) => address.trim()).filter(Boolean);
+      if (!apiKey || !from || !to?.length) {
+        throw new Error('The email lead sink needs RESEND_API_KEY, LEAD_EMAIL_FROM and LEAD_EMAIL_TO');
+      }
+      return new EmailLeadSink({ apiKey, from, to });
+    }
+    default:
+      throw new Error(`Unknown lead sink "${name}"`);
+  }
+}
+
+/**
+ * Creates the sinks listed in the LEAD_SINKS environment variable, e.g. "json,email"
+ */
+export function createLeadSinks(): LeadSink[] {
+  const names = (process.env.LEAD_SINKS || 'json').split(',').map((name) => name.trim()).filter(Boolean);
+  return Array.from(new Set(names)).map(createLeadSink);
+}
+
+let leadSinks: LeadSink[] | null = null;
+
+export function getLeadSinks(): LeadSink[] {
+  if (!leadSinks) leadSinks = createLeadSinks();
+  return leadSinks;
+}
+
+/**
+ * Hands a lead to every sink. It counts as saved when at least one sink took
+ * it, so an unreachable webhook doesn't lose the customer.
+ */
+export async function saveLead(lead: Lead, snapshot: LeadSnapshot | null): Promise<void> {
+  const sinks = getLeadSinks();
+  const results = await Promise.allSettled(sinks.map((sink) => sink.save(lead, snapshot)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Error saving lead ${lead.reference} to ${sinks[index].name}:`, result.reason);
+    }
+  });
+  if (results.every((result) => result.status === 'rejected')) {
+    throw new Error(`No lead sink could save lead ${lead.reference}`);
+  }
+}
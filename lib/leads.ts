@@ -0,0 +1,56 @@
+import type { RingConfiguration } from "./commerce";
+import type { PriceEstimate } from "./pricing";
+
+/**
+ * A customer asking about a ring they configured, sent from the viewer's
+ * enquiry form and stored by the sinks in lib/leadSink.ts
+ */
+export interface LeadContact {
+  name: string;
+  email: string;
+  phone?: string;
+  notes?: string;
+}
+
+export interface Lead {
+  // Short id the customer and sales refer to
+  reference: string;
+  createdAt: string;
+  contact: LeadContact;
+  configuration: RingConfiguration;
+  // The viewer state as the customer left it, camera angle included, in share link form
+  viewerConfig: string;
+  estimate: PriceEstimate | null;
+  // File name of the rendered view sent with the lead; unset when there was none
+  snapshot?: string;
+}
+
+export const MAX_NOTES_LENGTH = 2000;
+const MAX_FIELD_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const optionalText = (value: unknown, maxLength: number) =>
+  isString(value) && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+
+/**
+ * Checks the contact fields of the enquiry form
+ *
+ * @returns The trimmed contact details, or a message saying what's missing
+ */
+export function parseLeadContact(raw: unknown): LeadContact | { error: string } {
+  if (typeof raw !== "object" || raw === null) return { error: "Contact details are missing" };
+  const { name, email, phone, notes } = raw as Record<string, unknown>;
+  if (!isString(name) || !name.trim()) return { error: "Please enter your name" };
+  if (!isString(email) || !EMAIL_PATTERN.test(email.trim())) return { error: "Please enter a valid email address" };
+
+  const contact: LeadContact = {
+    name: name.trim().slice(0, MAX_FIELD_LENGTH),
+    email: email.trim().slice(0, MAX_FIELD_LENGTH),
+  };
+  const phoneNumber = optionalText(phone, MAX_FIELD_LENGTH);
+  if (phoneNumber) contact.phone = phoneNumber;
+  const customerNotes = optionalText(notes, MAX_NOTES_LENGTH);
+  if (customerNotes) contact.notes = customerNotes;
+  return contact;
+}
@@ -0,0 +1,94 @@
+import * as THREE from "three";
+
+// Where the Rhino3dmLoader fetches rhino3dm.js and rhino3dm.wasm from.
+// Override with NEXT_PUBLIC_RHINO3DM_LIBRARY_PATH to self-host the library.
+export const RHINO3DM_LIBRARY_PATH =
+  process.env.NEXT_PUBLIC_RHINO3DM_LIBRARY_PATH || "https://cdn.jsdelivr.net/npm/rhino3dm@8.4.0/";
+
+// Scale factors from Rhino's UnitSystem enum to millimetres, the unit our GLB exports use
+const UNIT_SYSTEM_TO_MM: Record<number, number> = {
+  2: 1,      // Millimeters
+  3: 10,     // Centimeters
+  4: 1000,   // Meters
+  8: 25.4,   // Inches
+};
+
+/**
+ * Same shape as the result of useGLTF, so 3DM and GLB files feed the same classifier
+ */
+export type RingNodes = {
+  nodes: { [key: string]: THREE.Mesh | THREE.Object3D };
+  materials: { [key: string]: THREE.Material };
+};
+
+export function is3dmPath(modelPath: string): boolean {
+  return modelPath.toLowerCase().endsWith(".3dm");
+}
+
+function getUnitScale(root: THREE.Object3D): number {
+  const unitSystem = root.userData?.settings?.modelUnitSystem;
+  const value = typeof unitSystem === "number" ? unitSystem : unitSystem?.value;
+  return UNIT_SYSTEM_TO_MM[value] ?? 1;
+}
+
+function getLayerPath(root: THREE.Object3D, mesh: THREE.Object3D): string {
+  const layers: Array<{ name?: string; fullPath?: string }> = root.userData?.layers || [];
+  const layerIndex = mesh.userData?.attributes?.layerIndex;
+  const layer = typeof layerIndex === "number" ? layers[layerIndex] : undefined;
+  return layer?.fullPath || layer?.name || "";
+}
+
+/**
+ * Converts the object returned by Rhino3dmLoader into a flat nodes map
+ *
+ * Every visible mesh gets a unique name built from its layer path and Rhino object
+ * name, and its world transform is baked into position/rotation/scale so RingModel
+ * can render it the same way it renders GLB nodes. Rhino is Z-up, so the whole file
+ * is rotated to Y-up the way Rhino's own glTF exporter does.
+ *
+ * @param root - The object produced by Rhino3dmLoader
+ * @returns Nodes and materials keyed by name
+ */
+export function rhinoObjectToNodes(root: THREE.Object3D): RingNodes {
+  const nodes: RingNodes["nodes"] = {};
+  const materials: RingNodes["materials"] = {};
+  const usedNames = new Map<string, number>();
+
+  const unitScale = getUnitScale(root);
+  const zUpToYUp = new THREE.Matrix4()
+    .makeRotationX(-Math.PI / 2)
+    .multiply(new THREE.Matrix4().makeScale(unitScale, unitScale, unitScale));
+
+  root.updateMatrixWorld(true);
+
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh) || !object.visible) return;
+
+    const layerPath = getLayerPath(root, object);
+    const objectName = object.userData?.attributes?.name || object.name || object.userData?.objectType || "Mesh";
+    const baseName = layerPath ? `${layerPath}/${objectName}` : objectName;
+
+    // Node names key the visibility controls, so duplicates get a numeric suffix
+    const count = usedNames.get(baseName) ?? 0;
+    usedNames.set(baseName, count + 1);
+    const name = count === 0 ? baseName : `${baseName}_${count + 1}`;
+
+    // Carry the layer name on the material so name-based gem detection sees
+    // layers such as "Diamonds" or "Stones" even when the Rhino material is generic
+    const sourceMaterial = Array.isArray(object.material) ? object.material[0] : object.material;
+    const material = sourceMaterial ? sourceMaterial.clone() : new THREE.MeshStandardMaterial();
+    material.name = [sourceMaterial?.name, layerPath].filter(Boolean).join(" / ");
+
+    const mesh = new THREE.Mesh(object.geometry, material);
+    mesh.name = name;
+    new THREE.Matrix4()
+      .multiplyMatrices(zUpToYUp, object.matrixWorld)
+      .decompose(mesh.position, mesh.quaternion, mesh.scale);
+    mesh.userData = { ...object.userData, layerPath };
+
+    nodes[name] = mesh;
+    materials[material.name || name] = material;
+  });
+
+  return { nodes, materials };
+}
@@ -0,0 +1,33 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { DEFAULT_METALS, parseMetalsConfig, type Metal } from './metals';
+
+/**
+ * Server-side loading of the deployment's metals config.
+ *
+ * The file is read from METALS_CONFIG (a path relative to the project folder),
+ * or config/metals.json when that isn't set. Without a file the default metals
+ * are used. It is read on every call, so edits show up without a restart.
+ */
+
+const DEFAULT_METALS_CONFIG = 'config/metals.json';
+
+export async function loadMetals(): Promise<Metal[]> {
+  const path = join(process.cwd(), process.env.METALS_CONFIG || DEFAULT_METALS_CONFIG);
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    // Only an explicitly configured file is expected to exist
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !process.env.METALS_CONFIG) return DEFAULT_METALS;
+    console.error(`Error reading metals config ${path}:`, error);
+    return DEFAULT_METALS;
+  }
+
+  try {
+    return parseMetalsConfig(DEFAULT_METALS, JSON.parse(content));
+  } catch (error) {
+    console.error(`Error parsing metals config ${path}:`, error);
+    return DEFAULT_METALS;
+  }
+}
@@ -0,0 +1,125 @@
+import type { ModelMetadata } from "./modelMetadata";
+
+/**
+ * Band metals offered in the viewer. The same entry drives the selector swatch,
+ * the rendered material and pricing, so they can't drift apart.
+ *
+ * Deployments add or change metals with a config file (see lib/metalConfig.ts):
+ *
+ * {
+ *   "metals": [
+ *     { "name": "Yellow Gold", "karat": 18, "color": "#f5c85c" },
+ *     { "name": "Black Rhodium", "color": "#3b3b3d", "roughness": 0.15, "priceMultiplier": 1.1 }
+ *   ]
+ * }
+ */
+export interface Metal {
+  name: string;
+  // Gold purity, e.g. 14 or 18; unset for metals not sold by karat
+  karat?: number;
+  // Base color of the rendered material
+  color: string;
+  // Color shown in the selector
+  swatch: string;
+  roughness: number;
+  metalness: number;
+  // Factor applied to a model's base price
+  priceMultiplier: number;
+}
+
+export const DEFAULT_METALS: Metal[] = [
+  { name: "Yellow Gold", karat: 14, color: "#ffdc73", swatch: "#ffdc73", roughness: 0.2, metalness: 1, priceMultiplier: 1 },
+  { name: "Rose Gold", karat: 14, color: "#d5927a", swatch: "#d5927a", roughness: 0.2, metalness: 1, priceMultiplier: 1 },
+  { name: "White Gold", karat: 14, color: "#E8E8E8", swatch: "#E8E8E8", roughness: 0.15, metalness: 1, priceMultiplier: 1.05 },
+  { name: "Platinum", color: "#E5E4E2", swatch: "#E5E4E2", roughness: 0.1, metalness: 1, priceMultiplier: 1.6 },
+];
+
+export const DEFAULT_METAL = "Yellow Gold";
+
+/**
+ * Looks up a metal by name, falling back to the first one so the band always renders
+ */
+export function getMetal(metals: Metal[], name: string | undefined): Metal {
+  return metals.find((metal) => metal.name === name) ?? metals[0] ?? DEFAULT_METALS[0];
+}
+
+// Limits the band options to the metals a model's metadata allows
+export function getBandOptions(metals: Metal[], metadata?: ModelMetadata | null): Metal[] {
+  const allowed = metadata?.metals?.length
+    ? metals.filter((band) => metadata.metals!.includes(band.name))
+    : [];
+  return allowed.length > 0 ? allowed : metals;
+}
+
+// Picks the first preferred metal the model offers, otherwise its first option
+export function getDefaultBand(bandOptions: Metal[], ...preferred: Array<string | undefined>): string {
+  const match = preferred.find((name) => bandOptions.some((band) => band.name === name));
+  return match ?? bandOptions[0].name;
+}
+
+// e.g. "18k Yellow Gold"; the name alone when it already says the karat
+export function formatMetalName(metal: Metal): string {
+  if (!metal.karat || /\d+\s*k\b/i.test(metal.name)) return metal.name;
+  return `${metal.karat}k ${metal.name}`;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const isColor = (value: unknown): value is string => isString(value) && HEX_COLOR.test(value);
+const isUnitInterval = (value: unknown): value is number => isNumber(value) && value >= 0 && value <= 1;
+
+// Fields a config entry may set, each dropped when it has the wrong type
+function parseMetalFields(value: Record<string, unknown>): Partial<Metal> {
+  return {
+    ...(isNumber(value.karat) && value.karat > 0 && { karat: value.karat }),
+    ...(isColor(value.color) && { color: value.color }),
+    ...(isColor(value.swatch) && { swatch: value.swatch }),
+    ...(isUnitInterval(value.roughness) && { roughness: value.roughness }),
+    ...(isUnitInterval(value.metalness) && { metalness: value.metalness }),
+    ...(isNumber(value.priceMultiplier) && value.priceMultiplier > 0 && { priceMultiplier: value.priceMultiplier }),
+  };
+}
+
+/**
+ * Applies a parsed metals config to a list of metals
+ *
+ * Entries named like an existing metal change only the fields they set; other
+ * entries add a metal and need at least a color. The swatch defaults to the
+ * color. With "includeDefaults": false only the configured metals are offered.
+ *
+ * @param base - The metals to start from, usually DEFAULT_METALS
+ * @param raw - The parsed JSON content
+ * @returns The combined list, or base when the config isn't usable
+ */
+export function parseMetalsConfig(base: Metal[], raw: unknown): Metal[] {
+  if (!isObject(raw) || !Array.isArray(raw.metals)) {
+    console.warn("Ignoring metals config: expected an object with a \"metals\" array");
+    return base;
+  }
+
+  const metals = raw.includeDefaults === false ? [] : base.map((metal) => ({ ...metal }));
+  for (const entry of raw.metals) {
+    if (!isObject(entry) || !isString(entry.name) || !entry.name.trim()) {
+      console.warn(`Ignoring metal without a name: ${JSON.stringify(entry)}`);
+      continue;
+    }
+    const name = entry.name.trim();
+    const fields = parseMetalFields(entry);
+    const existing = metals.find((metal) => metal.name === name) ?? base.find((metal) => metal.name === name);
+
+    if (existing) {
+      const merged = { ...existing, ...fields, ...(fields.color && !fields.swatch && { swatch: fields.color }) };
+      const index = metals.findIndex((metal) => metal.name === name);
+      if (index >= 0) metals[index] = merged;
+      else metals.push(merged);
+    } else if (fields.color) {
+      metals.push({ swatch: fields.color, roughness: 0.2, metalness: 1, priceMultiplier: 1, ...fields, name, color: fields.color });
+    } else {
+      console.warn(`Ignoring metal "${name}": new metals need a "color"`);
+    }
+  }
+  return metals.length > 0 ? metals : base;
+}
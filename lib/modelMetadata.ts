@@ -0,0 +1,123 @@
+/**
+ * Optional product information stored next to a model as `<slug>.json`,
+ * e.g. public/3d/Solitaire/387334.json for public/3d/Solitaire/387334.glb
+ */
+export interface GemSpec {
+  type: string;        // e.g. "Diamond", "Sapphire"
+  shape?: string;      // e.g. "Round", "Oval"
+  carat?: number;
+  count?: number;
+  color?: string;
+  clarity?: string;
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+export interface ModelMetadata {
+  name?: string;
+  description?: string;
+  metals?: string[];       // Metal names the customer may choose from; all metals when omitted
+  defaultMetal?: string;
+  gems?: GemSpec[];
+  priceRange?: PriceRange;
+  // Price of the ring as modelled, in a metal with price multiplier 1, for price estimates
+  basePrice?: number;
+  tags?: string[];
+  // Product variant the Shopify commerce adapter adds to the cart, or one per metal name
+  shopifyVariantId?: string | Record<string, string>;
+}
+
+// Strips the model file extension so "387334.glb" and "387334.3dm" share a sidecar
+export function getModelSlug(fileOrSlug: string): string {
+  return fileOrSlug.replace(/\.(glb|3dm)$/i, "");
+}
+
+// Name shown to customers, falling back to the slug the way the pages always have
+export function getDisplayName(slug: string, metadata?: ModelMetadata | null): string {
+  return metadata?.name || getModelSlug(slug).split("-").join(" ");
+}
+
+/**
+ * ISO 4217 code of a currency as written in a metadata or config file, e.g.
+ * " usd" becomes "USD"; anything else falls back to the fallback, USD unless
+ * given, as Intl.NumberFormat throws on malformed codes
+ */
+export function parseCurrency(value: unknown, fallback: string = "USD"): string {
+  const code = typeof value === "string" ? value.trim().toUpperCase() : "";
+  return /^[A-Z]{3}$/.test(code) ? code : fallback;
+}
+
+export function formatPriceRange(priceRange: PriceRange): string {
+  const format = (value: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: parseCurrency(priceRange.currency),
+      maximumFractionDigits: 0,
+    }).format(value);
+  return priceRange.min === priceRange.max
+    ? format(priceRange.min)
+    : `${format(priceRange.min)} – ${format(priceRange.max)}`;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function parseGemSpec(value: unknown): GemSpec | null {
+  if (!isObject(value) || !isString(value.type)) return null;
+  return {
+    type: value.type,
+    ...(isString(value.shape) && { shape: value.shape }),
+    ...(isNumber(value.carat) && { carat: value.carat }),
+    ...(isNumber(value.count) && { count: value.count }),
+    ...(isString(value.color) && { color: value.color }),
+    ...(isString(value.clarity) && { clarity: value.clarity }),
+  };
+}
+
+function parsePriceRange(value: unknown): PriceRange | undefined {
+  if (!isObject(value) || !isNumber(value.min) || !isNumber(value.max)) return undefined;
+  return {
+    min: value.min,
+    max: value.max,
+    currency: parseCurrency(value.currency),
+  };
+}
+
+/**
+ * Validates a parsed sidecar file, dropping fields with the wrong type
+ * instead of rejecting the whole file
+ *
+ * @param raw - The parsed JSON content
+ * @returns The typed metadata, or null when the file isn't a JSON object
+ */
+export function parseModelMetadata(raw: unknown): ModelMetadata | null {
+  if (!isObject(raw)) return null;
+
+  const metadata: ModelMetadata = {};
+  if (isString(raw.name)) metadata.name = raw.name;
+  if (isString(raw.description)) metadata.description = raw.description;
+  if (Array.isArray(raw.metals)) metadata.metals = raw.metals.filter(isString);
+  if (isString(raw.defaultMetal)) metadata.defaultMetal = raw.defaultMetal;
+  if (Array.isArray(raw.gems)) {
+    metadata.gems = raw.gems.map(parseGemSpec).filter((gem): gem is GemSpec => gem !== null);
+  }
+  const priceRange = parsePriceRange(raw.priceRange);
+  if (priceRange) metadata.priceRange = priceRange;
+  if (isNumber(raw.basePrice) && raw.basePrice >= 0) metadata.basePrice = raw.basePrice;
+  if (Array.isArray(raw.tags)) metadata.tags = raw.tags.filter(isString);
+  if (isString(raw.shopifyVariantId)) {
+    metadata.shopifyVariantId = raw.shopifyVariantId;
+  } else if (isObject(raw.shopifyVariantId)) {
+    metadata.shopifyVariantId = Object.fromEntries(
+      Object.entries(raw.shopifyVariantId).filter((entry): entry is [string, string] => isString(entry[1]))
+    );
+  }
+
+  return metadata;
+}
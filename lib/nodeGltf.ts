@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import draco3d from 'draco3dgltf';
+
+/**
+ * Server-side loading of GLB models into three.js objects, for classifying
+ * rings outside the browser: the model detail API and the classification
+ * snapshot check.
+ */
+
+const DRACO_DATA_TYPES: Record<string, `DT_${string}`> = {
+  Float32Array: 'DT_FLOAT32',
+  Int8Array: 'DT_INT8',
+  Int16Array: 'DT_INT16',
+  Int32Array: 'DT_INT32',
+  Uint8Array: 'DT_UINT8',
+  Uint16Array: 'DT_UINT16',
+  Uint32Array: 'DT_UINT32',
+};
+
+interface TypedArrayConstructor {
+  new (buffer: ArrayBufferLike, byteOffset: number, length: number): THREE.TypedArray;
+  readonly BYTES_PER_ELEMENT: number;
+  readonly name: string;
+}
+
+// The parts of the Emscripten Draco decoder module used below; draco3dgltf ships no types
+interface DracoStatus {
+  ok(): boolean;
+  error_msg(): string;
+}
+
+interface DracoMesh {
+  ptr: number;
+  num_points(): number;
+  num_faces(): number;
+}
+
+interface DracoAttribute {
+  num_components(): number;
+}
+
+interface DracoDecoder {
+  DecodeArrayToMesh(data: Int8Array, byteLength: number, mesh: DracoMesh): DracoStatus;
+  GetAttributeByUniqueId(mesh: DracoMesh, uniqueId: number): DracoAttribute;
+  GetAttributeDataArrayForAllPoints(
+    mesh: DracoMesh, attribute: DracoAttribute, dataType: number, byteLength: number, pointer: number
+  ): boolean;
+  GetTrianglesUInt32Array(mesh: DracoMesh, byteLength: number, pointer: number): boolean;
+}
+
+interface DracoDecoderModule {
+  Decoder: new () => DracoDecoder;
+  Mesh: new () => DracoMesh;
+  // Emscripten heap; every typed view shares its buffer
+  HEAPF32: Float32Array;
+  _malloc(byteLength: number): number;
+  _free(pointer: number): void;
+  destroy(object: DracoDecoder | DracoMesh): void;
+  // Data type constants, e.g. DT_FLOAT32
+  [dataType: `DT_${string}`]: number;
+}
+
+/**
+ * Stands in for DRACOLoader, which needs Web Workers, by decoding on the main
+ * thread with the Node build of the Draco decoder
+ */
+function createNodeDracoLoader(draco: DracoDecoderModule) {
+  const decode = (
+    buffer: ArrayBuffer,
+    attributeIds: Record<string, number>,
+    attributeTypes: Record<string, string>
+  ): THREE.BufferGeometry => {
+    const decoder = new draco.Decoder();
+    const mesh = new draco.Mesh();
+    try {
+      const data = new Int8Array(buffer);
+      const status = decoder.DecodeArrayToMesh(data, data.byteLength, mesh);
+      if (!status.ok() || mesh.ptr === 0) {
+        throw new Error(`Draco decoding failed: ${status.error_msg()}`);
+      }
+
+      const geometry = new THREE.BufferGeometry();
+      for (const [name, uniqueId] of Object.entries(attributeIds)) {
+        const ArrayType = (globalThis as unknown as Record<string, TypedArrayConstructor>)[attributeTypes[name]];
+        const attribute = decoder.GetAttributeByUniqueId(mesh, uniqueId);
+        const itemSize = attribute.num_components();
+        const length = mesh.num_points() * itemSize;
+        const byteLength = length * ArrayType.BYTES_PER_ELEMENT;
+        const pointer = draco._malloc(byteLength);
+        decoder.GetAttributeDataArrayForAllPoints(
+          mesh, attribute, draco[DRACO_DATA_TYPES[ArrayType.name]], byteLength, pointer
+        );
+        const array = new ArrayType(draco.HEAPF32.buffer, pointer, length).slice();
+        draco._free(pointer);
+        geometry.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+      }
+
+      const indexLength = mesh.num_faces() * 3;
+      const pointer = draco._malloc(indexLength * 4);
+      decoder.GetTrianglesUInt32Array(mesh, indexLength * 4, pointer);
+      const index = new Uint32Array(draco.HEAPF32.buffer, pointer, indexLength).slice();
+      draco._free(pointer);
+      geometry.setIndex(new THREE.BufferAttribute(index, 1));
+      return geometry;
+    } finally {
+      draco.destroy(mesh);
+      draco.destroy(decoder);
+    }
+  };
+
+  return {
+    preload() {},
+    decodeDracoFile(
+      buffer: ArrayBuffer,
+      callback: (geometry: THREE.BufferGeometry) => void,
+      attributeIds: Record<string, number>,
+      attributeTypes: Record<string, string>,
+      _vertexColorSpace: string,
+      onError: (error: unknown) => void
+    ) {
+      try {
+        callback(decode(buffer, attributeIds, attributeTypes));
+      } catch (error) {
+        onError(error);
+      }
+    },
+  };
+}
+
+let loaderPromise: Promise<GLTFLoader> | null = null;
+
+/**
+ * A GLTFLoader that decodes Draco meshes in Node; shared, as the decoder
+ * module takes a moment to start
+ */
+export function getNodeGltfLoader(): Promise<GLTFLoader> {
+  if (!loaderPromise) {
+    const decoderModule: Promise<DracoDecoderModule> = draco3d.createDecoderModule();
+    loaderPromise = decoderModule.then((draco) => {
+      const loader = new GLTFLoader();
+      // GLTFLoader only calls preload and decodeDracoFile
+      loader.setDRACOLoader(createNodeDracoLoader(draco) as never);
+      return loader;
+    });
+  }
+  return loaderPromise;
+}
+
+/**
+ * Parses a .glb file into its named objects, the same map useGLTF gives
+ * RingModel as `nodes`
+ */
+export async function loadGlbNodes(file: Buffer): Promise<Record<string, THREE.Object3D>> {
+  const loader = await getNodeGltfLoader();
+  const buffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+  const gltf = await loader.parseAsync(buffer, '');
+
+  const nodes: Record<string, THREE.Object3D> = {};
+  gltf.scene.traverse((object) => {
+    if (object.name) nodes[object.name] = object;
+  });
+  return nodes;
+}
@@ -0,0 +1,190 @@
+import type { RingModel } from "./catalog";
+import { GEM_ROLES, GEM_ROLE_NAMES, type GemRole } from "./gemRoles";
+import { isGemName } from "./gems";
+import { getMetalFinish, DEFAULT_FINISH } from "./finishes";
+import { getBandOptions, getDefaultBand, getMetal, formatMetalName, DEFAULT_METAL, type Metal } from "./metals";
+import { formatRingSize } from "./ringSizes";
+import { getDisplayName, parseCurrency } from "./modelMetadata";
+import type { ViewerConfig } from "./viewerConfig";
+
+/**
+ * Price estimates for a configured ring. Only the server uses this module, so
+ * the price tables stay off the client; the viewer asks
+ * /api/v1/models/{category}/{slug}/price for the estimate.
+ *
+ * A ring's estimate starts from its `basePrice` metadata (or the low end of its
+ * `priceRange`), which is taken to include diamonds and a metal with price
+ * multiplier 1. The chosen metal multiplies it, larger sizes add metal, and the
+ * pricing config adds or takes off the rest.
+ */
+export interface PricingConfig {
+  // Currency of models without a priceRange
+  currency: string;
+  // Added for each group of stones in a gem other than diamond; negative for cheaper gems
+  gems: Record<string, Partial<Record<GemRole, number>>>;
+  // Added for each band in the finish
+  finishes: Record<string, number>;
+  // Added when the accent band is a different metal
+  twoTone: number;
+  engraving: number;
+  // The metal price grows by this fraction per mm of inner diameter above baseInnerDiameter
+  sizeRate: number;
+  baseInnerDiameter: number;
+}
+
+export interface PriceLine {
+  label: string;
+  amount: number;
+}
+
+export interface PriceEstimate {
+  total: number;
+  currency: string;
+  lines: PriceLine[];
+}
+
+export const DEFAULT_PRICING: PricingConfig = {
+  currency: "USD",
+  gems: {
+    "Sapphire": { center: -900, side: -250, accent: -60 },
+    "Ruby": { center: -800, side: -220, accent: -50 },
+    "Emerald": { center: -1000, side: -280, accent: -70 },
+    "Morganite": { center: -1400, side: -350, accent: -90 },
+    "Yellow Diamond": { center: 600, side: 150, accent: 40 },
+    "Pink Diamond": { center: 2500, side: 600, accent: 150 },
+  },
+  finishes: { "Satin": 40, "Brushed": 40, "Hammered": 90 },
+  twoTone: 150,
+  engraving: 45,
+  sizeRate: 0.03,
+  // US 7
+  baseInnerDiameter: 17.3,
+};
+
+// Price of the ring as modelled; null when the metadata doesn't say
+export function getBasePrice(model: RingModel): number | null {
+  return model.metadata?.basePrice ?? model.metadata?.priceRange?.min ?? null;
+}
+
+// Currency of the ring's base price: its priceRange's, or the pricing config's
+export function getPriceCurrency(model: RingModel, pricing: PricingConfig): string {
+  return parseCurrency(model.metadata?.priceRange?.currency, pricing.currency);
+}
+
+/**
+ * Estimates the price of a ring as configured in the viewer
+ *
+ * @param model - The configured model
+ * @param config - Viewer state, as parsed from the share link form
+ * @param metals - Metals the deployment offers
+ * @param pricing - The pricing config
+ * @param stackedRings - Rings stacked with the model, each with its own metal
+ * @returns The estimate, in the model's currency, or null when a ring has no
+ * base price or a stacked ring is priced in another currency
+ */
+export function estimatePrice(
+  model: RingModel,
+  config: ViewerConfig,
+  metals: Metal[],
+  pricing: PricingConfig,
+  stackedRings: Array<{ model: RingModel; metal?: string }> = []
+): PriceEstimate | null {
+  const lines: PriceLine[] = [];
+  const currency = getPriceCurrency(model, pricing);
+  const sizeFactor = config.ringSize
+    ? Math.max(0, config.ringSize.innerDiameter - pricing.baseInnerDiameter) * pricing.sizeRate
+    : 0;
+
+  // Each ring in its metal, with the extra metal of a larger size on its own line
+  const addRing = (ring: RingModel, preferredMetal: string | undefined): Metal | null => {
+    const basePrice = getBasePrice(ring);
+    // Prices in different currencies don't add up
+    if (basePrice === null || getPriceCurrency(ring, pricing) !== currency) return null;
+    const metal = getMetal(metals, getDefaultBand(
+      getBandOptions(metals, ring.metadata), preferredMetal, ring.metadata?.defaultMetal, DEFAULT_METAL
+    ));
+    const metalPrice = basePrice * metal.priceMultiplier;
+    lines.push({ label: `${getDisplayName(ring.slug, ring.metadata)} in ${formatMetalName(metal)}`, amount: metalPrice });
+    if (config.ringSize && sizeFactor > 0) {
+      lines.push({ label: `Ring size ${formatRingSize(config.ringSize)}`, amount: metalPrice * sizeFactor });
+    }
+    return metal;
+  };
+
+  const metal = addRing(model, config.metal);
+  if (!metal) return null;
+
+  const accentMetal = getBandOptions(metals, model.metadata).find((band) => band.name === config.accentMetal);
+  if (accentMetal && accentMetal.name !== metal.name) {
+    lines.push({ label: `Two-tone with ${formatMetalName(accentMetal)}`, amount: pricing.twoTone });
+  }
+  // The viewer only sets an accent finish for rings with an accent band, whatever its metal
+  const finishes = [config.finish, config.accentFinish]
+    .map((name) => getMetalFinish(name).name)
+    .filter((name) => name !== DEFAULT_FINISH);
+  finishes.forEach((name) => {
+    if (pricing.finishes[name]) lines.push({ label: `${name} finish`, amount: pricing.finishes[name] });
+  });
+
+  GEM_ROLES.forEach((role) => {
+    const type = config.gems?.[role]?.type;
+    const amount = isGemName(type) ? pricing.gems[type]?.[role] : undefined;
+    if (amount) lines.push({ label: `${GEM_ROLE_NAMES[role]}: ${type}`, amount });
+  });
+
+  if (config.engraving?.text) lines.push({ label: "Engraving", amount: pricing.engraving });
+
+  for (const ring of stackedRings) {
+    if (!addRing(ring.model, ring.metal ?? metal.name)) return null;
+  }
+
+  const rounded = lines.map((line) => ({ ...line, amount: Math.round(line.amount) }));
+  return {
+    total: Math.max(0, rounded.reduce((sum, line) => sum + line.amount, 0)),
+    currency,
+    lines: rounded,
+  };
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseAmounts = (value: unknown): Record<string, number> =>
+  isObject(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, number] => isNumber(entry[1])))
+    : {};
+
+/**
+ * Applies a parsed pricing config to a base config. Gems and finishes are
+ * merged by name; anything with the wrong type is ignored.
+ *
+ * @param base - The config to start from, usually DEFAULT_PRICING
+ * @param raw - The parsed JSON content
+ */
+export function parsePricingConfig(base: PricingConfig, raw: unknown): PricingConfig {
+  if (!isObject(raw)) {
+    console.warn("Ignoring pricing config: expected an object");
+    return base;
+  }
+
+  const gems = { ...base.gems };
+  if (isObject(raw.gems)) {
+    for (const [name, value] of Object.entries(raw.gems)) {
+      const amounts = parseAmounts(value);
+      const roleAmounts = GEM_ROLES.filter((role) => role in amounts).map((role) => [role, amounts[role]]);
+      gems[name] = { ...gems[name], ...Object.fromEntries(roleAmounts) };
+    }
+  }
+  return {
+    currency: parseCurrency(raw.currency, base.currency),
+    gems,
+    finishes: { ...base.finishes, ...parseAmounts(raw.finishes) },
+    twoTone: isNumber(raw.twoTone) ? raw.twoTone : base.twoTone,
+    engraving: isNumber(raw.engraving) ? raw.engraving : base.engraving,
+    sizeRate: isNumber(raw.sizeRate) && raw.sizeRate >= 0 ? raw.sizeRate : base.sizeRate,
+    baseInnerDiameter: isNumber(raw.baseInnerDiameter) && raw.baseInnerDiameter > 0
+      ? raw.baseInnerDiameter
+      : base.baseInnerDiameter,
+  };
+}
@@ -0,0 +1,33 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { DEFAULT_PRICING, parsePricingConfig, type PricingConfig } from './pricing';
+
+/**
+ * Server-side loading of the deployment's pricing config.
+ *
+ * The file is read from PRICING_CONFIG (a path relative to the project folder),
+ * or config/pricing.json when that isn't set. Without a file the default prices
+ * are used. It is read on every call, so edits show up without a restart.
+ */
+
+const DEFAULT_PRICING_CONFIG = 'config/pricing.json';
+
+export async function loadPricing(): Promise<PricingConfig> {
+  const path = join(process.cwd(), process.env.PRICING_CONFIG || DEFAULT_PRICING_CONFIG);
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    // Only an explicitly configured file is expected to exist
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !process.env.PRICING_CONFIG) return DEFAULT_PRICING;
+    console.error(`Error reading pricing config ${path}:`, error);
+    return DEFAULT_PRICING;
+  }
+
+  try {
+    return parsePricingConfig(DEFAULT_PRICING, JSON.parse(content));
+  } catch (error) {
+    console.error(`Error parsing pricing config ${path}:`, error);
+    return DEFAULT_PRICING;
+  }
+}
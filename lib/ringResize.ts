@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import type { RingFrame } from './gemScoring';
+
+/**
+ * Resizes a ring to another finger size without distorting its stones.
+ *
+ * Band parts that form the inside of the ring are pushed outwards (or inwards) by
+ * the change in inner radius, so the band keeps its thickness. Everything sitting
+ * on the band (gems, settings, heads) moves by the same amount without changing
+ * shape. Model units are taken to be millimetres.
+ */
+
+export interface ResizedNode {
+  // Replacement geometry for band parts that were reshaped
+  geometry?: THREE.BufferGeometry;
+  // Replacement position for parts that were moved
+  position?: THREE.Vector3;
+}
+
+// An inner radius below this fraction of the outer one (which includes the head)
+// means the frame didn't find a band
+const MIN_INNER_TO_OUTER_RATIO = 0.25;
+// Band parts reaching within this factor of the inner radius form the inside of the ring
+const INNER_SURFACE_TOLERANCE = 1.1;
+const MAX_SAMPLED_VERTICES = 5000;
+
+/**
+ * The model's inner diameter, or null when its frame doesn't look like a ring
+ * (e.g. a flat model whose thinnest side isn't the finger axis)
+ */
+export function getModelInnerDiameter(frame: RingFrame | null): number | null {
+  if (!frame || frame.innerRadius < frame.outerRadius * MIN_INNER_TO_OUTER_RATIO) return null;
+  return frame.innerRadius * 2;
+}
+
+// Offset of a point from the finger axis, perpendicular to it
+function getRadialOffset(point: THREE.Vector3, frame: RingFrame): THREE.Vector3 {
+  const offset = point.clone().sub(frame.center);
+  return offset.sub(frame.axis.clone().multiplyScalar(offset.dot(frame.axis)));
+}
+
+function getMinRadius(mesh: THREE.Mesh, frame: RingFrame): number {
+  const positions = mesh.geometry.attributes.position;
+  const step = Math.max(1, Math.ceil(positions.count / MAX_SAMPLED_VERTICES));
+  const point = new THREE.Vector3();
+  let minRadius = Infinity;
+  for (let vertex = 0; vertex < positions.count; vertex += step) {
+    point.fromBufferAttribute(positions, vertex).applyMatrix4(mesh.matrix);
+    minRadius = Math.min(minRadius, getRadialOffset(point, frame).length());
+  }
+  return minRadius;
+}
+
+function isInnerSurfacePart(mesh: THREE.Mesh, frame: RingFrame): boolean {
+  return getMinRadius(mesh, frame) <= frame.innerRadius * INNER_SURFACE_TOLERANCE;
+}
+
+// Moves every vertex away from the axis by delta, in the space the node is rendered in
+function reshapeGeometry(mesh: THREE.Mesh, frame: RingFrame, delta: number): THREE.BufferGeometry {
+  const geometry = mesh.geometry.clone();
+  const positions = geometry.attributes.position;
+  const inverse = mesh.matrix.clone().invert();
+  const point = new THREE.Vector3();
+  for (let vertex = 0; vertex < positions.count; vertex++) {
+    point.fromBufferAttribute(positions, vertex).applyMatrix4(mesh.matrix);
+    const radial = getRadialOffset(point, frame);
+    const radius = radial.length();
+    if (radius > 0) point.addScaledVector(radial, delta / radius);
+    point.applyMatrix4(inverse);
+    positions.setXYZ(vertex, point.x, point.y, point.z);
+  }
+  positions.needsUpdate = true;
+  // Culling and raycasting use the bounds, so they have to follow the new shape
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+// Moves a part away from the axis by delta, along the direction of its center
+function getMovedPosition(mesh: THREE.Mesh, frame: RingFrame, delta: number): THREE.Vector3 {
+  if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+  const center = mesh.geometry.boundingBox!.getCenter(new THREE.Vector3()).applyMatrix4(mesh.matrix);
+  const radial = getRadialOffset(center, frame);
+  const radius = radial.length();
+  return radius > 0
+    ? mesh.position.clone().addScaledVector(radial, delta / radius)
+    : mesh.position.clone();
+}
+
+/**
+ * Works out how every part changes for a new inner diameter
+ *
+ * The returned geometries are new objects; the caller disposes of them.
+ *
+ * @param bands - Primary and accent band nodes
+ * @param gems - Gem nodes, which are only ever moved
+ * @param frame - The ring frame from getRingFrame
+ * @param innerDiameter - Target inner diameter in mm
+ * @returns Changes keyed by node name; empty when the model can't be resized
+ */
+export function resizeRing(
+  bands: THREE.Mesh[],
+  gems: THREE.Mesh[],
+  frame: RingFrame | null,
+  innerDiameter: number
+): Record<string, ResizedNode> {
+  const modelDiameter = getModelInnerDiameter(frame);
+  if (!frame || modelDiameter === null) return {};
+  const delta = (innerDiameter - modelDiameter) / 2;
+  if (Math.abs(delta) < 1e-6) return {};
+
+  const resized: Record<string, ResizedNode> = {};
+  for (const band of bands) {
+    band.updateMatrix();
+    resized[band.name] = isInnerSurfacePart(band, frame)
+      ? { geometry: reshapeGeometry(band, frame, delta) }
+      : { position: getMovedPosition(band, frame, delta) };
+  }
+  for (const gem of gems) {
+    gem.updateMatrix();
+    resized[gem.name] = { position: getMovedPosition(gem, frame, delta) };
+  }
+  return resized;
+}
@@ -0,0 +1,71 @@
+/**
+ * Finger sizes in the US, UK and EU (ISO 8653) systems, as inner diameters in mm
+ *
+ * - US: size 0 is 11.63 mm across and every full size adds 0.8128 mm
+ * - UK: letter sizes; A is 37.8 mm around and every letter adds 1.25 mm
+ * - EU: the inner circumference in mm
+ */
+export type RingSizeSystem = "US" | "UK" | "EU";
+
+export const RING_SIZE_SYSTEMS: RingSizeSystem[] = ["US", "UK", "EU"];
+
+export interface RingSize {
+  system: RingSizeSystem;
+  label: string;
+  innerDiameter: number;
+}
+
+const US_SIZES: RingSize[] = Array.from({ length: 21 }, (_, index) => {
+  const size = 3 + index / 2;
+  return { system: "US", label: String(size), innerDiameter: 11.63 + 0.8128 * size };
+});
+
+const UK_SIZES: RingSize[] = Array.from({ length: 41 }, (_, index) => {
+  // F to Z in half sizes
+  const letter = String.fromCharCode("F".charCodeAt(0) + Math.floor(index / 2));
+  const steps = 5 + index / 2;
+  return {
+    system: "UK",
+    label: index % 2 === 0 ? letter : `${letter}½`,
+    innerDiameter: (37.8 + 1.25 * steps) / Math.PI,
+  };
+});
+
+const EU_SIZES: RingSize[] = Array.from({ length: 27 }, (_, index) => {
+  const circumference = 44 + index;
+  return { system: "EU", label: String(circumference), innerDiameter: circumference / Math.PI };
+});
+
+export const RING_SIZES: Record<RingSizeSystem, RingSize[]> = {
+  US: US_SIZES,
+  UK: UK_SIZES,
+  EU: EU_SIZES,
+};
+
+export const isRingSizeSystem = (value: unknown): value is RingSizeSystem =>
+  typeof value === "string" && (RING_SIZE_SYSTEMS as string[]).includes(value);
+
+export function getRingSize(system: RingSizeSystem, label: string): RingSize | undefined {
+  return RING_SIZES[system].find((size) => size.label === label);
+}
+
+export function getInnerCircumference(innerDiameter: number): number {
+  return innerDiameter * Math.PI;
+}
+
+/**
+ * The size in a system closest to an inner diameter, e.g. to label a model's
+ * size as it was modelled
+ */
+export function findClosestRingSize(system: RingSizeSystem, innerDiameter: number): RingSize {
+  return RING_SIZES[system].reduce((closest, size) =>
+    Math.abs(size.innerDiameter - innerDiameter) < Math.abs(closest.innerDiameter - innerDiameter)
+      ? size
+      : closest
+  );
+}
+
+// e.g. "US 7" or "UK N½"
+export function formatRingSize(size: Pick<RingSize, "system" | "label">): string {
+  return `${size.system} ${size.label}`;
+}
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import type { RingFrame } from './gemScoring';
+
+/**
+ * Several rings worn on one finger, e.g. an engagement ring with its wedding
+ * bands. Each ring is centered on the finger axis and the rings are lined up
+ * along it, in order, with a small gap between their bounding boxes.
+ */
+
+// Most rings a stack can hold, the first one included
+export const MAX_STACKED_RINGS = 4;
+// Space left between neighbouring rings, in mm
+export const STACK_GAP = 0.2;
+
+// How far a ring reaches along the finger axis, measured from its frame's center
+export interface RingExtent {
+  min: number;
+  max: number;
+}
+
+/**
+ * Measures a ring along its finger axis, heads and stones included
+ *
+ * @param frame - The ring frame from getRingFrame
+ * @param meshes - Every node of the ring
+ */
+export function getRingExtent(frame: RingFrame, meshes: THREE.Mesh[]): RingExtent {
+  const corner = new THREE.Vector3();
+  let min = Infinity;
+  let max = -Infinity;
+  for (const mesh of meshes) {
+    if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+    const box = mesh.geometry.boundingBox!;
+    mesh.updateMatrix();
+    for (let index = 0; index < 8; index++) {
+      corner.set(
+        index & 1 ? box.max.x : box.min.x,
+        index & 2 ? box.max.y : box.min.y,
+        index & 4 ? box.max.z : box.min.z
+      ).applyMatrix4(mesh.matrix).sub(frame.center);
+      const distance = corner.dot(frame.axis);
+      min = Math.min(min, distance);
+      max = Math.max(max, distance);
+    }
+  }
+  return Number.isFinite(min) ? { min, max } : { min: 0, max: 0 };
+}
+
+/**
+ * Where each ring's center goes along the finger axis, so the rings sit side
+ * by side in order and the stack as a whole is centered
+ *
+ * @param extents - Extent of each ring; null for rings that haven't loaded yet,
+ *   which take no space until they have
+ * @param gap - Space between neighbouring rings
+ */
+export function getStackOffsets(extents: Array<RingExtent | null>, gap: number = STACK_GAP): number[] {
+  const offsets: number[] = [];
+  let end = 0;
+  extents.forEach((extent, index) => {
+    const { min, max } = extent ?? { min: 0, max: 0 };
+    const start = index === 0 ? end : end + gap;
+    offsets.push(start - min);
+    end = start - min + max;
+  });
+  // The stack runs from 0 to end
+  return offsets.map((offset) => offset - end / 2);
+}
+
+/**
+ * The translation that moves a ring's center onto the finger axis at the given offset
+ */
+export function getStackPosition(frame: RingFrame, offset: number): THREE.Vector3 {
+  return frame.axis.clone().multiplyScalar(offset).sub(frame.center);
+}
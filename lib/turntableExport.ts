@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+import { drawView } from './imageExport';
+import { muxAnimatedWebp } from './animatedWebp';
+
+/**
+ * Short clips of the camera orbiting the ring, recorded in the browser
+ *
+ * Each frame is drawn off-screen at the clip's size like an exported still
+ * (see lib/imageExport.ts). Videos are recorded from that canvas with
+ * MediaRecorder, in real time, so they come out smoothest with the tab in
+ * front. Animated WebPs are put together from one encoded still per frame
+ * and don't depend on timing.
+ */
+
+export type TurntableFormat = 'webm' | 'mp4' | 'webp';
+
+export type TurntableEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface TurntableOptions {
+  // Even numbers of pixels, which video encoders need
+  width: number;
+  height: number;
+  // Defaults to WebM
+  format?: TurntableFormat;
+  // How far the camera turns around the vertical axis, counter-clockwise seen
+  // from above; defaults to 360, a clip that loops
+  degrees?: number;
+  // Angle of the camera above the ring's horizontal plane, -89 to 89 degrees;
+  // defaults to where the camera is
+  elevation?: number;
+  // Seconds; defaults to 6
+  duration?: number;
+  // Defaults to linear, which is the one that loops smoothly
+  easing?: TurntableEasing;
+  // Frames per second; defaults to 30
+  fps?: number;
+  // A CSS color, white by default; only WebPs can be "transparent"
+  background?: string;
+  // As for stills; defaults to 1
+  supersampling?: 1 | 2 | 4;
+  // Called after each frame, with the number drawn so far
+  onProgress?: (frame: number, frames: number) => void;
+}
+
+export const TURNTABLE_FORMATS: Record<TurntableFormat, { name: string; extension: string; mimeTypes: string[] }> = {
+  webm: { name: 'WebM video', extension: 'webm', mimeTypes: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'] },
+  mp4: { name: 'MP4 video', extension: 'mp4', mimeTypes: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'] },
+  webp: { name: 'Animated WebP', extension: 'webp', mimeTypes: ['image/webp'] },
+};
+
+export const TURNTABLE_EASINGS: Record<TurntableEasing, (progress: number) => number> = {
+  'linear': (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': (t) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+};
+
+// Video encoders top out around 4K
+export const MAX_TURNTABLE_SIZE = 3840;
+// Bits per pixel per frame of recorded video, enough for metal gradients
+const VIDEO_BITS_PER_PIXEL = 0.2;
+const WEBP_QUALITY = 0.9;
+
+function getMimeType(format: TurntableFormat): string | undefined {
+  if (format === 'webp') {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    // Browsers without a WebP encoder fall back to PNG
+    return canvas.toDataURL('image/webp').startsWith('data:image/webp') ? 'image/webp' : undefined;
+  }
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return TURNTABLE_FORMATS[format].mimeTypes.find((mimeType) => MediaRecorder.isTypeSupported(mimeType));
+}
+
+/**
+ * Whether this browser can record the format
+ */
+export function isTurntableFormatSupported(format: TurntableFormat): boolean {
+  return getMimeType(format) !== undefined;
+}
+
+const waitUntil = (time: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, time - performance.now())));
+
+/**
+ * Records the camera orbiting the origin, from where it is now, into a clip
+ *
+ * The camera is put back where it was afterwards. Nothing else should move it
+ * while recording, e.g. orbit controls.
+ *
+ * @param gl - The viewer's renderer
+ * @param scene - The scene to render
+ * @param camera - The viewer's camera
+ * @param options - Size, format and camera move of the clip
+ */
+export async function recordTurntable(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  options: TurntableOptions
+): Promise<Blob> {
+  const {
+    width, height, format = 'webm', degrees = 360, elevation, duration = 6, easing = 'linear', fps = 30,
+    background = '#ffffff', supersampling = 1, onProgress,
+  } = options;
+  if (![width, height].every((side) => Number.isInteger(side) && side > 0 && side % 2 === 0 && side <= MAX_TURNTABLE_SIZE)) {
+    throw new RangeError(`Clips must be even numbers of pixels up to ${MAX_TURNTABLE_SIZE} on each side`);
+  }
+  if (!(duration > 0 && fps > 0)) throw new RangeError('The duration and frame rate must be above 0');
+  if (background === 'transparent' && format !== 'webp') {
+    throw new Error('Only animated WebPs can have a transparent background');
+  }
+  const mimeType = getMimeType(format);
+  if (!mimeType) throw new Error(`This browser can't record ${TURNTABLE_FORMATS[format].name}`);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d');
+  if (!context) throw new Error('The browser could not create a canvas for the clip');
+
+  const frames = Math.max(2, Math.round(duration * fps));
+  // A whole number of turns loops, so the last frame stops a step short of the first
+  const loops = degrees !== 0 && degrees % 360 === 0;
+  const ease = TURNTABLE_EASINGS[easing];
+  const startPosition = camera.position.clone();
+  const startRotation = camera.quaternion.clone();
+  const start = new THREE.Spherical().setFromVector3(startPosition);
+  const polarAngle = elevation === undefined
+    ? start.phi
+    : Math.PI / 2 - THREE.MathUtils.degToRad(THREE.MathUtils.clamp(elevation, -89, 89));
+
+  const drawFrame = (frame: number) => {
+    const progress = ease(frame / (loops ? frames : frames - 1));
+    camera.position.setFromSphericalCoords(
+      start.radius, polarAngle, start.theta + THREE.MathUtils.degToRad(degrees) * progress
+    );
+    camera.lookAt(0, 0, 0);
+    drawView(gl, scene, camera, context, { background, supersampling });
+  };
+
+  try {
+    if (format === 'webp') {
+      const stills: Uint8Array[] = [];
+      for (let frame = 0; frame < frames; frame++) {
+        drawFrame(frame);
+        const still = await new Promise<Blob | null>((resolve) => output.toBlob(resolve, mimeType, WEBP_QUALITY));
+        if (!still) throw new Error('The browser could not encode a frame');
+        stills.push(new Uint8Array(await still.arrayBuffer()));
+        onProgress?.(frame + 1, frames);
+      }
+      // Whole milliseconds per frame that add up to the duration
+      const durations = stills.map((_, frame) =>
+        Math.round(((frame + 1) * 1000) / fps) - Math.round((frame * 1000) / fps)
+      );
+      return muxAnimatedWebp(stills, { width, height, durations, alpha: background === 'transparent' });
+    }
+
+    // Frames are only captured when requested, once each is drawn
+    const stream = output.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: Math.round(width * height * fps * VIDEO_BITS_PER_PIXEL),
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise((resolve) => {
+      recorder.onstop = resolve;
+    });
+
+    recorder.start();
+    try {
+      const startTime = performance.now();
+      for (let frame = 0; frame < frames; frame++) {
+        await waitUntil(startTime + (frame * 1000) / fps);
+        drawFrame(frame);
+        track.requestFrame();
+        onProgress?.(frame + 1, frames);
+      }
+      // Holds the last frame for its share of the duration
+      await waitUntil(startTime + (frames * 1000) / fps);
+    } finally {
+      recorder.stop();
+      track.stop();
+    }
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    camera.position.copy(startPosition);
+    camera.quaternion.copy(startRotation);
+    gl.render(scene, camera);
+  }
+}
@@ -0,0 +1,183 @@
+import { GEM_ROLES, type GemRole } from "./gemRoles";
+import type { GemSelection } from "./gems";
+import { getRingSize, isRingSizeSystem, type RingSize } from "./ringSizes";
+import { sanitizeEngravingText, type Engraving } from "./engraving";
+import { getMetalFinish } from "./finishes";
+import { MAX_STACKED_RINGS } from "./ringStack";
+
+/**
+ * Viewer state that can be shared through the model page URL, e.g.
+ * /Solitaire/387334?metal=Rose+Gold&finish=Brushed&accent=White+Gold&stone=Sapphire&size=US:7&cam=22,31,23&hide=PART0001
+ */
+export interface ViewerConfig {
+  metal?: string;
+  accentMetal?: string;
+  // Surface finish names for the primary and accent bands
+  finish?: string;
+  accentFinish?: string;
+  // Gem type and color for each group of stones
+  gems?: Partial<Record<GemRole, GemSelection>>;
+  // Finger size; the ring is shown as modelled when unset
+  ringSize?: RingSize;
+  engraving?: Engraving;
+  // Rings worn together on one finger, in order, as "<category>/<slug>", each with
+  // its own metal. The model itself is listed too when it isn't the first ring.
+  stack?: StackedRingConfig[];
+  // Camera position; the camera always orbits the origin
+  camera?: [number, number, number];
+  hiddenNodes?: string[];
+}
+
+export interface StackedRingConfig {
+  model: string;
+  metal?: string;
+}
+
+type SearchParamsLike =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+const PARAM_NAMES = {
+  metal: "metal",
+  accentMetal: "accent",
+  finish: "finish",
+  accentFinish: "accentFinish",
+  ringSize: "size",
+  engravingText: "engrave",
+  engravingFont: "font",
+  stack: "stack",
+  stackMetal: "stackMetal",
+  camera: "cam",
+  hiddenNodes: "hide",
+} as const;
+
+// Query parameters for the gem type and custom color of each stone role
+const GEM_PARAM_NAMES: Record<GemRole, { type: string; color: string }> = {
+  center: { type: "stone", color: "stoneColor" },
+  side: { type: "side", color: "sideColor" },
+  accent: { type: "pave", color: "paveColor" },
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function getAll(params: SearchParamsLike, name: string): string[] {
+  if (params instanceof URLSearchParams) return params.getAll(name);
+  const value = params[name];
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function getFirst(params: SearchParamsLike, name: string): string | undefined {
+  return getAll(params, name)[0];
+}
+
+// e.g. "US:7" or "UK:N½"
+function parseRingSize(value: string | undefined): RingSize | undefined {
+  const [system, label] = value?.split(":") ?? [];
+  return isRingSizeSystem(system) && label ? getRingSize(system, label) : undefined;
+}
+
+function parseCamera(value: string | undefined): ViewerConfig["camera"] {
+  if (!value) return undefined;
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return undefined;
+  // A camera at the origin has no direction to look in
+  if (parts.every((part) => part === 0)) return undefined;
+  return parts as [number, number, number];
+}
+
+/**
+ * Reads a viewer configuration from URL query parameters
+ *
+ * Parameters that are missing or malformed are left out, so the viewer uses its
+ * defaults for them. Metal and gem names are checked by the viewer itself, since
+ * only it knows which options a model offers.
+ *
+ * @param params - The page's searchParams or a URLSearchParams
+ */
+export function parseViewerConfig(params: SearchParamsLike): ViewerConfig {
+  const config: ViewerConfig = {};
+
+  const metal = getFirst(params, PARAM_NAMES.metal)?.trim();
+  if (metal) config.metal = metal;
+
+  const accentMetal = getFirst(params, PARAM_NAMES.accentMetal)?.trim();
+  if (accentMetal) config.accentMetal = accentMetal;
+
+  // Finishes are the same for every model, so unknown names can be dropped here
+  const finish = getFirst(params, PARAM_NAMES.finish)?.trim();
+  if (finish && getMetalFinish(finish).name === finish) config.finish = finish;
+
+  const accentFinish = getFirst(params, PARAM_NAMES.accentFinish)?.trim();
+  if (accentFinish && getMetalFinish(accentFinish).name === accentFinish) config.accentFinish = accentFinish;
+
+  for (const role of GEM_ROLES) {
+    const type = getFirst(params, GEM_PARAM_NAMES[role].type)?.trim();
+    if (!type) continue;
+    const color = getFirst(params, GEM_PARAM_NAMES[role].color)?.trim();
+    config.gems = {
+      ...config.gems,
+      [role]: { type, ...(color && HEX_COLOR.test(color) && { color: color.toLowerCase() }) },
+    };
+  }
+
+  const ringSize = parseRingSize(getFirst(params, PARAM_NAMES.ringSize)?.trim());
+  if (ringSize) config.ringSize = ringSize;
+
+  // Spaces are part of the engraving, so the text isn't trimmed
+  const engravingText = sanitizeEngravingText(getFirst(params, PARAM_NAMES.engravingText) ?? "");
+  if (engravingText.trim()) {
+    const font = getFirst(params, PARAM_NAMES.engravingFont)?.trim();
+    config.engraving = { text: engravingText, font: font || "" };
+  }
+
+  // Each stacked ring's metal is at the same position in "stackMetal", empty for the default
+  const stackMetals = getAll(params, PARAM_NAMES.stackMetal);
+  const stack = getAll(params, PARAM_NAMES.stack)
+    .map((model, index) => ({ model: model.trim(), metal: stackMetals[index]?.trim() }))
+    .filter(({ model }) => model)
+    .slice(0, MAX_STACKED_RINGS)
+    .map(({ model, metal }) => ({ model, ...(metal && { metal }) }));
+  if (stack.length > 0) config.stack = stack;
+
+  const camera = parseCamera(getFirst(params, PARAM_NAMES.camera));
+  if (camera) config.camera = camera;
+
+  const hiddenNodes = getAll(params, PARAM_NAMES.hiddenNodes).filter(Boolean);
+  if (hiddenNodes.length > 0) config.hiddenNodes = hiddenNodes;
+
+  return config;
+}
+
+/**
+ * Writes a viewer configuration as a query string, without the leading "?"
+ */
+export function serializeViewerConfig(config: ViewerConfig): string {
+  const params = new URLSearchParams();
+  if (config.metal) params.set(PARAM_NAMES.metal, config.metal);
+  if (config.accentMetal) params.set(PARAM_NAMES.accentMetal, config.accentMetal);
+  if (config.finish) params.set(PARAM_NAMES.finish, config.finish);
+  if (config.accentFinish) params.set(PARAM_NAMES.accentFinish, config.accentFinish);
+  for (const role of GEM_ROLES) {
+    const selection = config.gems?.[role];
+    if (!selection) continue;
+    params.set(GEM_PARAM_NAMES[role].type, selection.type);
+    if (selection.color) params.set(GEM_PARAM_NAMES[role].color, selection.color);
+  }
+  if (config.ringSize) {
+    params.set(PARAM_NAMES.ringSize, `${config.ringSize.system}:${config.ringSize.label}`);
+  }
+  if (config.engraving?.text) {
+    params.set(PARAM_NAMES.engravingText, config.engraving.text);
+    if (config.engraving.font) params.set(PARAM_NAMES.engravingFont, config.engraving.font);
+  }
+  config.stack?.forEach(({ model, metal }) => {
+    params.append(PARAM_NAMES.stack, model);
+    params.append(PARAM_NAMES.stackMetal, metal ?? "");
+  });
+  if (config.camera) {
+    params.set(PARAM_NAMES.camera, config.camera.map((value) => Number(value.toFixed(2))).join(","));
+  }
+  config.hiddenNodes?.forEach((name) => params.append(PARAM_NAMES.hiddenNodes, name));
+  return params.toString();
+}
@@ -0,0 +1,69 @@
+/**
+ * What the 3D viewer is doing, reported so pages and headless capture tools
+ * can wait on the viewer itself instead of on timeouts
+ *
+ * Each model shown goes through the stages in order, starting over at
+ * "loading" when switching models. Errors can come at any time and don't
+ * necessarily stop the viewer, e.g. stones falling back to a simpler material.
+ */
+export const VIEWER_STAGES = [
+  'loading',
+  // The model file has loaded and is in the scene
+  'model-loaded',
+  // The studio lighting has loaded and is reflected by the metals
+  'environment-ready',
+  // Every material's shaders have compiled
+  'materials-compiled',
+  // A frame has been rendered with everything settled, e.g. after the intro pan
+  'ready',
+] as const;
+
+export type ViewerStage = typeof VIEWER_STAGES[number];
+
+export type ViewerStatusChange =
+  | { type: ViewerStage }
+  | { type: 'error'; message: string };
+
+export type ViewerStatusEvent = ViewerStatusChange & {
+  category: string;
+  model: string;
+  // Milliseconds since the page opened, as from performance.now()
+  time: number;
+};
+
+// The latest stage of the model on screen and the errors since it started loading
+export interface ViewerStatus {
+  category: string;
+  model: string;
+  stage: ViewerStage;
+  errors: string[];
+}
+
+// Name of the CustomEvent dispatched on window for every status event, with the event as its detail
+export const VIEWER_STATUS_EVENT = 'ring-viewer-status';
+
+declare global {
+  interface Window {
+    ringViewerStatus?: ViewerStatus;
+  }
+}
+
+/**
+ * Records a status event in window.ringViewerStatus and dispatches it on window
+ */
+export function publishViewerStatus(event: ViewerStatusEvent) {
+  const { category, model } = event;
+  const previous = window.ringViewerStatus;
+  const sameModel = previous?.category === category && previous.model === model && event.type !== 'loading';
+  const status: ViewerStatus = sameModel && previous
+    ? { ...previous }
+    : { category, model, stage: 'loading', errors: [] };
+  if (event.type === 'error') {
+    status.errors = [...status.errors, event.message];
+  } else {
+    status.stage = event.type;
+  }
+
+  window.ringViewerStatus = status;
+  window.dispatchEvent(new CustomEvent<ViewerStatusEvent>(VIEWER_STATUS_EVENT, { detail: event }));
+}
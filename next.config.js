@@ -12,7 +12,8 @@ const nextConfig = {
   webpack: (config) => {
     config.resolve.alias = {
       ...config.resolve.alias,
-      'three': require.resolve('three'),
+      // Exact match only, so imports from three/examples/jsm still resolve
+      'three$': require.resolve('three'),
     };
     
     // Handle Node.js specific modules that aren't available in the browser
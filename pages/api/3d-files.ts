@@ -1,16 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs';
-import path from 'path';
+import { getCatalog } from '@/lib/catalog';
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
-  const publicDir = path.join(process.cwd(), 'public', '3d');
-  fs.readdir(publicDir, (err, files) => {
-    if (err) {
-      res.status(500).json({ error: 'Error reading 3d folder' });
-      return;
-    }
-    const glbFiles = files.filter(file => file.endsWith('.glb'));
-    const filePaths = glbFiles.map(file => `/3d/${file}`);
+// Paths of the .glb models at the root of public/3d; the catalog with
+// categories is at /api/v1/catalog
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { uncategorized } = await getCatalog();
+    const filePaths = uncategorized.filter((model) => model.format === 'glb').map((model) => model.assetUrl);
     res.status(200).json({ files: filePaths });
-  });
-} 
\ No newline at end of file
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: 'Error reading 3d folder' });
+  }
+}
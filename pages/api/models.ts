@@ -1,14 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs';
-import path from 'path';
+import { getCatalog } from '@/lib/catalog';
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
+// File names of the .glb models at the root of public/3d; the catalog with
+// categories is at /api/v1/catalog
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const modelsDir = path.join(process.cwd(), 'public', '3d');
-    const files = fs.readdirSync(modelsDir).filter(file => file.endsWith('.glb'));
+    const { uncategorized } = await getCatalog();
+    const files = uncategorized.filter((model) => model.format === 'glb').map((model) => model.fileName);
     res.status(200).json({ files });
   } catch (error) {
     console.error(error);
     res.status(500).json({ error: 'Could not fetch models' });
   }
-} 
\ No newline at end of file
+}
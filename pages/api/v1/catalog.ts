@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCatalog } from '@/lib/catalog';
+import {
+  allowGet,
+  sendError,
+  toCategorySummary,
+  toModelSummary,
+  toUncategorizedModel,
+  type ApiError,
+  type CatalogResponse,
+} from '@/lib/apiV1';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CatalogResponse | ApiError>) {
+  if (!allowGet(req, res)) return;
+
+  try {
+    const catalog = await getCatalog();
+    res.status(200).json({
+      categories: catalog.categories.map((category) => ({
+        ...toCategorySummary(req, category),
+        models: category.models.map((model) => toModelSummary(req, model)),
+      })),
+      uncategorized: catalog.uncategorized.map((model) => toUncategorizedModel(req, model)),
+      generatedAt: new Date(catalog.generatedAt).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error reading catalog", error);
+    sendError(res, 500, 'internal_error', 'Could not read the catalog');
+  }
+}
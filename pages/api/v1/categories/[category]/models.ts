@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCategory } from '@/lib/catalog';
+import {
+  allowGet,
+  getPagination,
+  getQueryParam,
+  paginate,
+  sendError,
+  toCategorySummary,
+  toModelSummary,
+  type ApiError,
+  type CategoryModelsResponse,
+} from '@/lib/apiV1';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CategoryModelsResponse | ApiError>) {
+  if (!allowGet(req, res)) return;
+
+  const pagination = getPagination(req);
+  if ('error' in pagination) {
+    sendError(res, 400, 'bad_request', pagination.error);
+    return;
+  }
+
+  const categoryName = getQueryParam(req, 'category') ?? '';
+  try {
+    const category = await getCategory(categoryName);
+    if (!category) {
+      sendError(res, 404, 'not_found', `Category "${categoryName}" was not found`);
+      return;
+    }
+
+    const models = category.models.map((model) => toModelSummary(req, model));
+    res.status(200).json({
+      category: toCategorySummary(req, category),
+      ...paginate(models, pagination.page, pagination.pageSize),
+    });
+  } catch (error) {
+    console.error("Error reading models for category", categoryName, error);
+    sendError(res, 500, 'internal_error', 'Could not read the models');
+  }
+}
@@ -0,0 +1,17 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCategories } from '@/lib/catalog';
+import { allowGet, sendError, toCategorySummary, type ApiError, type CategoriesResponse } from '@/lib/apiV1';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CategoriesResponse | ApiError>) {
+  if (!allowGet(req, res)) return;
+
+  try {
+    const categories = await getCategories();
+    res.status(200).json({
+      categories: categories.map((category) => toCategorySummary(req, category)),
+    });
+  } catch (error) {
+    console.error("Error reading categories", error);
+    sendError(res, 500, 'internal_error', 'Could not read the categories');
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { CommerceError, getCommerceAdapter } from '@/lib/commerceAdapter';
+import { resolveConfiguredRing } from '@/lib/configuredRing';
+import {
+  allowPost,
+  sendError,
+  type ApiError,
+  type CheckoutRequest,
+  type CheckoutResponse,
+} from '@/lib/apiV1';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function parseCheckoutRequest(body: unknown): CheckoutRequest | null {
+  if (typeof body !== 'object' || body === null) return null;
+  const { category, slug, config } = body as Record<string, unknown>;
+  if (!isString(category) || !isString(slug) || !isString(config)) return null;
+  return { category, slug, config };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CheckoutResponse | ApiError>) {
+  if (!allowPost(req, res)) return;
+
+  const request = parseCheckoutRequest(req.body);
+  if (!request) {
+    sendError(res, 400, 'bad_request', 'The body must be JSON with category, slug and config strings');
+    return;
+  }
+
+  const { category, slug } = request;
+  try {
+    const ring = await resolveConfiguredRing(req, category, slug, request.config);
+    if (!ring) {
+      sendError(res, 404, 'not_found', `Model "${slug}" was not found in category "${category}"`);
+      return;
+    }
+
+    const result = await getCommerceAdapter().submit(ring.configuration, ring.model);
+    res.status(200).json({ result, configuration: ring.configuration });
+  } catch (error) {
+    if (error instanceof CommerceError) {
+      sendError(res, 422, 'checkout_failed', error.message);
+      return;
+    }
+    console.error("Error checking out", category, slug, error);
+    sendError(res, 500, 'internal_error', 'Could not send the ring to the shop');
+  }
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resolveConfiguredRing } from '@/lib/configuredRing';
+import { parseLeadContact, type Lead } from '@/lib/leads';
+import { getSnapshotFileName, parseSnapshot, saveLead } from '@/lib/leadSink';
+import { loadMetals } from '@/lib/metalConfig';
+import { estimatePrice } from '@/lib/pricing';
+import { loadPricing } from '@/lib/pricingConfig';
+import { serializeViewerConfig } from '@/lib/viewerConfig';
+import {
+  allowPost,
+  sendError,
+  type ApiError,
+  type LeadResponse,
+} from '@/lib/apiV1';
+
+// Leaves room for the snapshot of the customer's view: MAX_SNAPSHOT_BYTES (3 MB)
+// comes to 4 MB in base64, plus the rest of the form
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '4.5mb' },
+  },
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<LeadResponse | ApiError>) {
+  if (!allowPost(req, res)) return;
+
+  const body = (typeof req.body === 'object' && req.body !== null ? req.body : {}) as Record<string, unknown>;
+  const { category, slug, config: viewerConfig } = body;
+  if (!isString(category) || !isString(slug) || !isString(viewerConfig)) {
+    sendError(res, 400, 'bad_request', 'The body must be JSON with category, slug and config strings and a contact');
+    return;
+  }
+  const contact = parseLeadContact(body.contact);
+  if ('error' in contact) {
+    sendError(res, 400, 'bad_request', contact.error);
+    return;
+  }
+  const snapshot = parseSnapshot(body.snapshot);
+  if (body.snapshot !== undefined && !snapshot) {
+    sendError(res, 400, 'bad_request', 'The snapshot must be a JPEG, PNG or WebP data URL under 3 MB');
+    return;
+  }
+
+  try {
+    const ring = await resolveConfiguredRing(req, category, slug, viewerConfig, true);
+    if (!ring) {
+      sendError(res, 404, 'not_found', `Model "${slug}" was not found in category "${category}"`);
+      return;
+    }
+
+    const [metals, pricing] = await Promise.all([loadMetals(), loadPricing()]);
+    const reference = randomUUID().slice(0, 8).toUpperCase();
+    const lead: Lead = {
+      reference,
+      createdAt: new Date().toISOString(),
+      contact,
+      configuration: ring.configuration,
+      viewerConfig: serializeViewerConfig(ring.config),
+      estimate: estimatePrice(ring.model, ring.config, metals, pricing, ring.stackedRings),
+      ...(snapshot && { snapshot: getSnapshotFileName(reference, snapshot) }),
+    };
+    await saveLead(lead, snapshot);
+    res.status(200).json({ reference });
+  } catch (error) {
+    console.error("Error saving lead", category, slug, error);
+    sendError(res, 500, 'internal_error', 'Could not send your enquiry');
+  }
+}
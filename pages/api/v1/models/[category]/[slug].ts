@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCatalogStorage, getModel } from '@/lib/catalog';
+import { getModelPartCounts } from '@/lib/glbInfo';
+import {
+  allowGet,
+  getQueryParam,
+  sendError,
+  toModelDetail,
+  type ApiError,
+  type ModelDetailResponse,
+} from '@/lib/apiV1';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ModelDetailResponse | ApiError>) {
+  if (!allowGet(req, res)) return;
+
+  const categoryName = getQueryParam(req, 'category') ?? '';
+  const slug = getQueryParam(req, 'slug') ?? '';
+  try {
+    const model = await getModel(categoryName, slug);
+    if (!model) {
+      sendError(res, 404, 'not_found', `Model "${slug}" was not found in category "${categoryName}"`);
+      return;
+    }
+
+    const parts = await getModelPartCounts(getCatalogStorage(), model);
+    res.status(200).json({ model: toModelDetail(req, model, parts) });
+  } catch (error) {
+    console.error("Error reading model", categoryName, slug, error);
+    sendError(res, 500, 'internal_error', 'Could not read the model');
+  }
+}
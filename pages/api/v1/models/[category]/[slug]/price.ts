@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getModel } from '@/lib/catalog';
+import { getStackedRings } from '@/lib/configuredRing';
+import { loadMetals } from '@/lib/metalConfig';
+import { estimatePrice } from '@/lib/pricing';
+import { loadPricing } from '@/lib/pricingConfig';
+import { parseViewerConfig } from '@/lib/viewerConfig';
+import {
+  allowGet,
+  getQueryParam,
+  sendError,
+  type ApiError,
+  type PriceEstimateResponse,
+} from '@/lib/apiV1';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse<PriceEstimateResponse | ApiError>) {
+  if (!allowGet(req, res)) return;
+
+  const categoryName = getQueryParam(req, 'category') ?? '';
+  const slug = getQueryParam(req, 'slug') ?? '';
+  try {
+    const model = await getModel(categoryName, slug);
+    if (!model) {
+      sendError(res, 404, 'not_found', `Model "${slug}" was not found in category "${categoryName}"`);
+      return;
+    }
+
+    // The rest of the query is the viewer configuration, as in shareable links
+    const config = parseViewerConfig(req.query);
+    const [stackedRings, metals, pricing] = await Promise.all([
+      getStackedRings(model, config),
+      loadMetals(),
+      loadPricing(),
+    ]);
+    res.status(200).json({ estimate: estimatePrice(model, config, metals, pricing, stackedRings) });
+  } catch (error) {
+    console.error("Error estimating price", categoryName, slug, error);
+    sendError(res, 500, 'internal_error', 'Could not estimate the price');
+  }
+}
@@ -1,82 +1,45 @@
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/router';
 import dynamic from 'next/dynamic';
+import { loadMetals } from '../../lib/metalConfig';
+import { getModel } from '../../lib/catalog';
 
 // Import RingViewer without SSR
 const RingViewer = dynamic(() => import('../../components/RingViewer'), { ssr: false });
 
-export default function RenderPage() {
+export default function RenderPage({ metals, metadata, classificationOverrides }) {
   const router = useRouter();
-  const { category, model } = router.query;
-  const [loading, setLoading] = useState(true);
-  const [ready, setReady] = useState(false);
-  const [error, setError] = useState(null);
-  const successRef = useRef(false);
-  
-  // Handle WebGL context loss
-  useEffect(() => {
-    const handleContextLoss = () => {
-      console.log('WebGL context lost, attempting to capture anyway');
-      if (!ready) {
-        window.rendererReady = true;
-        setReady(true);
-      }
-    };
-    
-    window.addEventListener('webglcontextlost', handleContextLoss);
-    return () => window.removeEventListener('webglcontextlost', handleContextLoss);
-  }, [ready]);
-  
-  // Notify when render is complete
-  useEffect(() => {
-    if (category && model) {
-      // Set a staged timeout to ensure we get a screenshot even if loading takes too long
-      const timeout1 = setTimeout(() => {
-        console.log('Initial timeout reached, model may not be fully loaded');
-      }, 2500);
-      
-      const timeout2 = setTimeout(() => {
-        console.log('Final timeout reached, forcing completion');
-        window.rendererReady = true;
-        setReady(true);
-      }, 5000);
-      
-      return () => {
-        clearTimeout(timeout1);
-        clearTimeout(timeout2);
-      };
-    }
-  }, [category, model]);
+  // Models at the root of public/3d are rendered at /render, without a category.
+  // rotate is seconds per turn, 0 to keep still; dpr fixes the pixel ratio so
+  // renders look the same on every machine
+  const { category = '', model, rotate, dpr } = router.query;
+  const rotateSeconds = rotate === undefined ? 30 : Number(rotate);
+  const pixelRatio = dpr === undefined ? 1 : Number(dpr) || 1;
+  const [stage, setStage] = useState('loading');
 
-  // Track successful model loading
-  useEffect(() => {
-    if (category && model) {
-      const checkSuccess = setInterval(() => {
-        // If we have at least one diamond and one band, consider it a success
-        const diamondNodes = document.querySelectorAll('.diamond-material');
-        const bandNodes = document.querySelectorAll('.band-material');
-        
-        if (diamondNodes.length > 0 && bandNodes.length > 0) {
-          successRef.current = true;
-          window.modelLoadSuccess = true;
-          clearInterval(checkSuccess);
-          
-          // Give it a bit more time to render completely before signaling ready
-          setTimeout(() => {
-            window.rendererReady = true;
-            setReady(true);
-          }, 1000);
-        }
-      }, 500);
-      
-      return () => clearInterval(checkSuccess);
+  // The viewer also publishes its stages and errors as window.ringViewerStatus
+  // and "ring-viewer-status" events; the status element mirrors the stage for
+  // tools that read the DOM
+  const handleStatus = useCallback((event) => {
+    if (event.type === 'error') {
+      console.error('Render error:', event.message);
+      return;
     }
-  }, [category, model]);
+    setStage(event.type);
+  }, []);
+
+  // The viewer reports when the model has loaded and been rendered. Scripts
+  // reach what it passes as window.ringViewer, e.g. setCameraAngle for turntables.
+  const handleReady = useCallback((info) => {
+    window.ringViewer = info;
+    window.modelLoadSuccess = true;
+    window.rendererReady = true;
+  }, []);
   
   // Log what's happening for debugging
   useEffect(() => {
-    if (category && model) {
+    if (model) {
       console.log('Render page received:', { category, model });
     }
   }, [category, model]);
@@ -88,22 +51,10 @@ export default function RenderPage() {
     return name ? name.toString().replace(/\.glb$/i, '') : '';
   };
 
-  // Hide UI elements we don't want in the image
-  const hideUIStyles = {
-    '.band-color-controls': 'display: none !important',
-    '.controls-container': 'display: none !important',
-    '.bottom-text': 'display: none !important',
-    '.diamond-color-controls': 'display: none !important',
-    '.bottom-right-controls': 'display: none !important',
-    '.leva-container': 'display: none !important',
-  };
-
   // Simple styles to optimize for screenshot
   return (
     <div style={{ width: '100vw', height: '100vh', background: 'white', overflow: 'hidden' }}>
-      <style dangerouslySetInnerHTML={{ __html: Object.entries(hideUIStyles).map(([selector, rule]) => `${selector} { ${rule} }`).join('\n') }} />
-      
-      {category && model ? (
+      {model ? (
         <>
           <div id="debug" style={{ 
             position: 'absolute', 
@@ -120,12 +71,20 @@ export default function RenderPage() {
             models={[cleanModelName(model)]} 
             selectedModel={cleanModelName(model)}
             category={category}
-            hideControls={true}
-            autoRotate={true}
+            metadata={metadata}
+            classificationOverrides={classificationOverrides}
+            metals={metals}
+            hideControls
+            autoRotate={rotateSeconds > 0}
+            autoRotateSeconds={rotateSeconds || undefined}
+            introPan={false}
+            pixelRatio={pixelRatio}
+            onReady={handleReady}
+            onStatus={handleStatus}
           />
           
-          <div id="status" data-ready={ready} style={{ display: 'none' }}>
-            {ready ? 'ready' : 'loading'}
+          <div id="status" data-ready={stage === 'ready'} data-stage={stage} style={{ display: 'none' }}>
+            {stage}
           </div>
         </>
       ) : (
@@ -134,4 +93,16 @@ export default function RenderPage() {
     </div>
   );
 }
-    
\ No newline at end of file
+    
+// Renders use the same metals, metadata and classification as the viewer pages
+export async function getServerSideProps({ params, query }) {
+  const slug = typeof query.model === 'string' ? query.model.replace(/\.glb$/i, '') : '';
+  const [metals, ringModel] = await Promise.all([loadMetals(), getModel(params?.category ?? '', slug)]);
+  return {
+    props: {
+      metals,
+      metadata: ringModel?.metadata ?? null,
+      classificationOverrides: ringModel?.classificationOverrides ?? null,
+    },
+  };
+}
@@ -0,0 +1,2 @@
+// Renders models at the root of public/3d, which have no category: /render?model=<file name>
+export { default, getServerSideProps } from './[category]';
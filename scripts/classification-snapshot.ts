@@ -0,0 +1,133 @@
+/**
+ * Classifies every GLB under public/3d headlessly and compares the result with
+ * the committed snapshot, so changes to the heuristics show which rings they affect.
+ *
+ *   npm run classification:check    # exits with 1 when any node changed role
+ *   npm run classification:update   # rewrites the snapshot after a deliberate change
+ */
+import fs from 'fs';
+import path from 'path';
+import { classifyRing } from '../lib/classifyRing';
+import { loadGlbNodes } from '../lib/nodeGltf';
+import type { GemRole } from '../lib/gemRoles';
+import { getModelSlug } from '../lib/modelMetadata';
+import {
+  getOverridesFileName,
+  parseClassificationOverrides,
+  type NodeRole
+} from '../lib/classificationOverrides';
+
+const MODELS_DIR = path.join(process.cwd(), 'public', '3d');
+const SNAPSHOT_PATH = path.join(__dirname, 'classification-snapshot.json');
+
+interface ModelSnapshot {
+  counts: Record<NodeRole, number>;
+  nodes: Record<string, NodeRole>;
+  gemRoles: Record<string, GemRole>;
+}
+
+type Snapshot = Record<string, ModelSnapshot>;
+
+function findModels(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findModels(fullPath);
+    return entry.name.toLowerCase().endsWith('.glb') ? [fullPath] : [];
+  }).sort();
+}
+
+function readOverrides(modelPath: string) {
+  const overridesPath = path.join(path.dirname(modelPath), getOverridesFileName(getModelSlug(path.basename(modelPath))));
+  if (!fs.existsSync(overridesPath)) return null;
+  return parseClassificationOverrides(JSON.parse(fs.readFileSync(overridesPath, 'utf8')));
+}
+
+async function classifyModel(modelPath: string): Promise<ModelSnapshot> {
+  const nodes = await loadGlbNodes(fs.readFileSync(modelPath));
+  const classification = classifyRing(nodes, readOverrides(modelPath));
+
+  const snapshot: ModelSnapshot = {
+    counts: {
+      gem: classification.gems.length,
+      primary: classification.primary.length,
+      accent: classification.accent.length,
+      hidden: classification.hidden.length,
+    },
+    nodes: {},
+    gemRoles: {},
+  };
+  for (const name of Object.keys(classification.nodes).sort()) {
+    snapshot.nodes[name] = classification.nodes[name].role;
+  }
+  for (const name of Object.keys(classification.gemRoles).sort()) {
+    snapshot.gemRoles[name] = classification.gemRoles[name];
+  }
+  return snapshot;
+}
+
+// e.g. "primary" or "gem (center)"
+function describeRole(snapshot: ModelSnapshot, node: string): string {
+  const role = snapshot.nodes[node] ?? 'none';
+  const gemRole = snapshot.gemRoles?.[node];
+  return gemRole ? `${role} (${gemRole})` : role;
+}
+
+function diffSnapshots(expected: Snapshot, actual: Snapshot): string[] {
+  const changes: string[] = [];
+  const models = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  for (const model of Array.from(models).sort()) {
+    if (!expected[model]) {
+      changes.push(`${model}: not in the snapshot`);
+      continue;
+    }
+    if (!actual[model]) {
+      changes.push(`${model}: missing`);
+      continue;
+    }
+    const nodes = new Set([...Object.keys(expected[model].nodes), ...Object.keys(actual[model].nodes)]);
+    for (const node of Array.from(nodes).sort()) {
+      const before = describeRole(expected[model], node);
+      const after = describeRole(actual[model], node);
+      if (before !== after) changes.push(`${model}: ${node} ${before} -> ${after}`);
+    }
+  }
+  return changes;
+}
+
+async function main() {
+  const update = process.argv.includes('--update');
+
+  const actual: Snapshot = {};
+  for (const modelPath of findModels(MODELS_DIR)) {
+    const key = path.relative(MODELS_DIR, modelPath).split(path.sep).join('/');
+    try {
+      actual[key] = await classifyModel(modelPath);
+    } catch (error) {
+      console.error(`Error classifying ${key}:`, error);
+      process.exitCode = 1;
+    }
+  }
+
+  if (update) {
+    fs.writeFileSync(SNAPSHOT_PATH, `${JSON.stringify(actual, null, 2)}\n`);
+    console.log(`Wrote ${Object.keys(actual).length} models to ${path.relative(process.cwd(), SNAPSHOT_PATH)}`);
+    return;
+  }
+
+  if (!fs.existsSync(SNAPSHOT_PATH)) {
+    console.error('No snapshot yet; run with --update to create it');
+    process.exitCode = 1;
+    return;
+  }
+  const expected: Snapshot = JSON.parse(fs.readFileSync(SNAPSHOT_PATH, 'utf8'));
+  const changes = diffSnapshots(expected, actual);
+  if (changes.length > 0) {
+    changes.forEach((change) => console.log(change));
+    console.error(`${changes.length} classification change(s); run with --update if they are intended`);
+    process.exitCode = 1;
+  } else {
+    console.log(`Classification of ${Object.keys(actual).length} models matches the snapshot`);
+  }
+}
+
+main();
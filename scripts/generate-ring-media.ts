@@ -0,0 +1,258 @@
+/**
+ * Renders every model under public/3d with the viewer's render page, so the
+ * thumbnails have the same metals, stones and lighting as RingViewer:
+ *
+ *   public/images/{category}/{slug}.png   still of the ring
+ *   public/gifs/{category}/{slug}.gif     turntable, also as {slug}.webp
+ *   public/videos/{category}/{slug}.mp4   turntable that loops seamlessly
+ *
+ *   npm run generate-images                          # models whose outputs are missing or older than the model
+ *   npm run generate-images -- --force               # every model
+ *   npm run generate-images -- Solitaire/387334 ...  # only these models
+ *
+ * Models at the root of public/3d have no category, and their renders go to
+ * the root of each folder.
+ *
+ * Chrome renders with SwiftShader, so no GPU is needed. The script serves the
+ * app with `next start` (run `npm run build` first) unless MEDIA_BASE_URL
+ * points at a running one. The animations are encoded with ffmpeg, which has
+ * to be on the PATH; without it only the stills are rendered.
+ */
+import fs from 'fs';
+import path from 'path';
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import puppeteer, { type Browser } from 'puppeteer';
+import type { ViewerReadyInfo } from '../components/RingViewer';
+import { getModelSlug } from '../lib/modelMetadata';
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+const MODELS_DIR = path.join(PUBLIC_DIR, '3d');
+const FRAMES_DIR = path.join(process.cwd(), 'temp', 'turntable');
+const PORT = Number(process.env.MEDIA_PORT || 3003);
+
+const IMAGE_SIZE = 800;
+const TURNTABLE_SIZE = 480;
+// One turn in three seconds
+const TURNTABLE_FRAMES = 48;
+const TURNTABLE_FPS = 16;
+// Software rendering takes a while to compile the stone shaders
+const READY_TIMEOUT = 120000;
+const SERVER_TIMEOUT = 60000;
+
+declare global {
+  interface Window {
+    ringViewer?: ViewerReadyInfo;
+  }
+}
+
+interface MediaJob {
+  // "<category>/<file name>", or the file name of a model without a category, as reported
+  key: string;
+  category: string;
+  // Segment of the model's pages: the file name without ".glb"
+  routeSlug: string;
+  modifiedAt: number;
+  image: string;
+  gif: string;
+  webp: string;
+  video: string;
+}
+
+function findJobs(): MediaJob[] {
+  if (!fs.existsSync(MODELS_DIR)) return [];
+  const categories = fs.readdirSync(MODELS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((folder) => folder.name);
+  // The empty category is the root of public/3d
+  return ['', ...categories]
+    .flatMap((category) => fs.readdirSync(path.join(MODELS_DIR, category), { withFileTypes: true })
+      .filter((entry) => entry.isFile() && /\.(glb|3dm)$/i.test(entry.name))
+      .map(({ name: fileName }): MediaJob => {
+        const baseName = getModelSlug(fileName);
+        return {
+          key: category ? `${category}/${fileName}` : fileName,
+          category,
+          routeSlug: fileName.replace(/\.glb$/i, ''),
+          modifiedAt: fs.statSync(path.join(MODELS_DIR, category, fileName)).mtimeMs,
+          image: path.join(PUBLIC_DIR, 'images', category, `${baseName}.png`),
+          gif: path.join(PUBLIC_DIR, 'gifs', category, `${baseName}.gif`),
+          webp: path.join(PUBLIC_DIR, 'gifs', category, `${baseName}.webp`),
+          video: path.join(PUBLIC_DIR, 'videos', category, `${baseName}.mp4`),
+        };
+      }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+const getOutputs = (job: MediaJob, animations: boolean) =>
+  animations ? [job.image, job.gif, job.webp, job.video] : [job.image];
+
+function isUpToDate(job: MediaJob, animations: boolean): boolean {
+  return getOutputs(job, animations).every((output) =>
+    fs.existsSync(output) && fs.statSync(output).mtimeMs > job.modifiedAt
+  );
+}
+
+const hasFfmpeg = () => spawnSync('ffmpeg', ['-version'], { stdio: 'ignore' }).status === 0;
+
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ['-y', '-loglevel', 'error', ...args], { stdio: 'inherit' });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('exit', (code) => code === 0 ? resolve() : reject(new Error(`ffmpeg exited with ${code}`)));
+  });
+}
+
+async function waitForServer(baseUrl: string, server: ChildProcess) {
+  const deadline = Date.now() + SERVER_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) throw new Error(`next start exited with ${server.exitCode}; run npm run build first`);
+    try {
+      await fetch(`${baseUrl}/api/v1/categories`);
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+  }
+  throw new Error(`The app did not start on ${baseUrl}`);
+}
+
+/**
+ * Serves the app for the render page, or uses the one at MEDIA_BASE_URL
+ *
+ * @returns The app's URL and a function that stops the server started here
+ */
+async function startServer(): Promise<{ baseUrl: string; stop: () => void }> {
+  if (process.env.MEDIA_BASE_URL) {
+    return { baseUrl: process.env.MEDIA_BASE_URL.replace(/\/$/, ''), stop: () => undefined };
+  }
+  const baseUrl = `http://localhost:${PORT}`;
+  const server = spawn(
+    process.execPath,
+    [require.resolve('next/dist/bin/next'), 'start', '-p', String(PORT)],
+    { stdio: 'ignore' }
+  );
+  const stop = () => {
+    server.kill();
+  };
+  try {
+    await waitForServer(baseUrl, server);
+  } catch (error) {
+    stop();
+    throw error;
+  }
+  return { baseUrl, stop };
+}
+
+function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: 'new',
+    args: [
+      '--no-sandbox',
+      '--disable-dev-shm-usage',
+      // WebGL through SwiftShader, on the CPU
+      '--use-gl=angle',
+      '--use-angle=swiftshader',
+      '--enable-unsafe-swiftshader',
+      '--ignore-gpu-blocklist',
+    ],
+  });
+}
+
+async function encodeTurntable(job: MediaJob) {
+  const input = ['-framerate', String(TURNTABLE_FPS), '-i', path.join(FRAMES_DIR, 'frame_%03d.png')];
+  const scale = `scale=${TURNTABLE_SIZE}:-2:flags=lanczos`;
+  [job.gif, job.webp, job.video].forEach((output) => fs.mkdirSync(path.dirname(output), { recursive: true }));
+
+  // A palette made from the frames keeps the metal gradients from banding
+  await runFfmpeg([...input, '-vf', `${scale},split[a][b];[a]palettegen[p];[b][p]paletteuse`, '-loop', '0', job.gif]);
+  await runFfmpeg([...input, '-vf', scale, '-c:v', 'libwebp', '-quality', '80', '-loop', '0', job.webp]);
+  await runFfmpeg([
+    ...input, '-vf', scale, '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-movflags', '+faststart', job.video,
+  ]);
+}
+
+async function renderModel(browser: Browser, baseUrl: string, job: MediaJob, animations: boolean) {
+  const page = await browser.newPage();
+  try {
+    await page.setViewport({ width: IMAGE_SIZE, height: IMAGE_SIZE, deviceScaleFactor: 1 });
+    // Still camera at a fixed pixel ratio, so every run gives the same pictures
+    const url = `${baseUrl}/render${job.category ? `/${encodeURIComponent(job.category)}` : ''}` +
+      `?model=${encodeURIComponent(job.routeSlug)}&rotate=0&dpr=1`;
+    await page.goto(url, { waitUntil: 'domcontentloaded' });
+    try {
+      await page.waitForFunction(() => !!window.ringViewer, { timeout: READY_TIMEOUT, polling: 500 });
+    } catch (error) {
+      // Say how far the viewer got, e.g. stuck loading the model or compiling shaders
+      const status = await page.evaluate(() => window.ringViewerStatus);
+      if (!status) throw error;
+      const errors = status.errors.length > 0 ? `, with errors: ${status.errors.join('; ')}` : '';
+      throw new Error(`The viewer was still at "${status.stage}" after ${READY_TIMEOUT / 1000} s${errors}`);
+    }
+
+    await page.evaluate(() => window.ringViewer?.setCameraAngle(0));
+    fs.mkdirSync(path.dirname(job.image), { recursive: true });
+    await page.screenshot({ path: job.image, type: 'png' });
+    if (!animations) return;
+
+    fs.rmSync(FRAMES_DIR, { recursive: true, force: true });
+    fs.mkdirSync(FRAMES_DIR, { recursive: true });
+    for (let frame = 0; frame < TURNTABLE_FRAMES; frame++) {
+      // The last frame stops one step short of a full turn, so the loop has no repeated frame
+      const angle = (frame / TURNTABLE_FRAMES) * Math.PI * 2;
+      await page.evaluate((turn) => window.ringViewer?.setCameraAngle(turn), angle);
+      const framePath = path.join(FRAMES_DIR, `frame_${String(frame).padStart(3, '0')}.png`);
+      await page.screenshot({ path: framePath, type: 'png' });
+    }
+    await encodeTurntable(job);
+  } finally {
+    await page.close();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const only = args.filter((arg) => !arg.startsWith('--'));
+
+  const animations = hasFfmpeg();
+  if (!animations) console.warn('ffmpeg was not found on the PATH; rendering stills only');
+
+  const jobs = findJobs()
+    .filter((job) => only.length === 0 || only.some((model) =>
+      job.key === model || (job.category ? `${job.category}/${job.routeSlug}` : job.routeSlug) === model
+    ))
+    .filter((job) => force || !isUpToDate(job, animations));
+  if (jobs.length === 0) {
+    console.log('All renders are up to date');
+    return;
+  }
+
+  console.log(`Rendering ${jobs.length} model(s)`);
+  const server = await startServer();
+  let browser: Browser | null = null;
+  let rendered = 0;
+  try {
+    browser = await launchBrowser();
+    for (const job of jobs) {
+      try {
+        await renderModel(browser, server.baseUrl, job, animations);
+        rendered++;
+        console.log(`Rendered ${job.key}`);
+      } catch (error) {
+        console.error(`Error rendering ${job.key}:`, error);
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    // Chrome may not have started, e.g. when it isn't installed
+    await browser?.close();
+    server.stop();
+    fs.rmSync(FRAMES_DIR, { recursive: true, force: true });
+  }
+  console.log(`Rendered ${rendered} of ${jobs.length} model(s)`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { assignGemRoles } from '../lib/gemRoles';
+
+function createStone(name: string, size: number, x: number, z = 0): THREE.Mesh {
+  const stone = new THREE.Mesh(new THREE.BoxGeometry(size, size, size));
+  stone.name = name;
+  stone.position.set(x, 0, z);
+  return stone;
+}
+
+test('small stones on either side of the center stone are side stones', () => {
+  const roles = assignGemRoles([
+    createStone('center', 9, 0),
+    createStone('left', 2, -7),
+    createStone('right', 2, 7),
+    createStone('pave1', 1, -4, 3),
+    createStone('pave2', 1, 4, 3),
+  ]);
+
+  assert.deepEqual(roles, { center: 'center', left: 'side', right: 'side', pave1: 'accent', pave2: 'accent' });
+});
+
+test('a pair of small stones next to each other are accent stones', () => {
+  const roles = assignGemRoles([
+    createStone('center', 9, 0),
+    createStone('under1', 2, -1, -4),
+    createStone('under2', 2, 1, -4),
+    createStone('pave', 1, 5),
+  ]);
+
+  assert.deepEqual(roles, { center: 'center', under1: 'accent', under2: 'accent', pave: 'accent' });
+});
+
+test('rows of equal small stones have no side stones', () => {
+  const roles = assignGemRoles([
+    createStone('center', 9, 0),
+    ...[-9, -7, 7, 9].map((x) => createStone(`shoulder${x}`, 2, x)),
+  ]);
+
+  assert.equal(roles.center, 'center');
+  assert.ok(Object.entries(roles).every(([name, role]) => name === 'center' || role === 'accent'));
+});
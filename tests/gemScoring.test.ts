@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import * as THREE from 'three';
+import { loadGlbNodes } from '../lib/nodeGltf';
+import {
+  analyzeModelData,
+  calculateGemScore,
+  getGeometryFeatures,
+  isAccentBandNode,
+  type ModelData
+} from '../lib/gemScoring';
+
+// The thresholds lib/classifyRing.ts sorts nodes by: gems above, bands below
+const HIGH_GEM_SCORE = 75;
+const LOW_GEM_SCORE = 40;
+
+async function loadModel(assetKey: string): Promise<ModelData> {
+  const file = await readFile(path.join(process.cwd(), 'public', '3d', assetKey));
+  return analyzeModelData(await loadGlbNodes(file));
+}
+
+// A flat-shaded 20-sided solid, standing in for a cut stone
+const createStone = () => new THREE.Mesh(new THREE.IcosahedronGeometry(1, 0));
+
+// A smooth-shaded band around the z axis
+const createBand = () => new THREE.Mesh(new THREE.TorusGeometry(10, 1, 24, 96));
+
+test('a flat-shaded convex solid measures as facets', () => {
+  const features = getGeometryFeatures(createStone());
+  assert.equal(features.faceCount, 20);
+  assert.equal(features.vertexFaceRatio, 3);
+  assert.equal(features.facetPlanarity, 1);
+  assert.ok(features.convexity > 0.99);
+  assert.ok(features.aspect > 0.8);
+});
+
+test('a smooth band measures as concave metal', () => {
+  const features = getGeometryFeatures(createBand());
+  assert.ok(features.vertexFaceRatio < 0.6);
+  assert.ok(features.facetPlanarity < 0.1);
+  assert.ok(features.convexity < 0.5);
+  // Ten times wider across than along the finger
+  assert.ok(features.aspect < 0.15);
+});
+
+test('a stone on the shank scores as a gem and the shank as metal', () => {
+  const stone = createStone();
+  stone.position.set(0, 11, 0);
+  const band = createBand();
+  const meshData = analyzeModelData({ stone, band });
+
+  assert.equal(meshData.ring?.shank, band);
+  assert.ok(calculateGemScore(stone, meshData) > HIGH_GEM_SCORE);
+  assert.ok(calculateGemScore(band, meshData) < LOW_GEM_SCORE);
+});
+
+test('a stone in the finger hole scores lower than one on the shank', () => {
+  const onShank = createStone();
+  onShank.position.set(0, 11, 0);
+  const inHole = createStone();
+  const band = createBand();
+  const meshData = analyzeModelData({ onShank, inHole, band });
+
+  assert.ok(calculateGemScore(inHole, meshData) < calculateGemScore(onShank, meshData));
+});
+
+test('meshes with too few triangles are not gems', () => {
+  const stone = createStone();
+  const plate = new THREE.Mesh(new THREE.OctahedronGeometry(1, 0));
+  const meshData = analyzeModelData({ stone, plate });
+
+  assert.equal(calculateGemScore(plate, meshData), 0);
+});
+
+test('the solitaire stone in Solitaire/386741F scores as a gem', async () => {
+  const meshData = await loadModel('Solitaire/386741F.glb');
+  const stone = meshData.meshes.find((mesh) => mesh.name === '3Design_CAD_STL__part0');
+  assert.ok(stone);
+
+  const features = getGeometryFeatures(stone);
+  assert.ok(features.vertexFaceRatio > 2.2);
+  assert.ok(features.facetPlanarity > 0.9);
+  assert.ok(features.convexity > 0.95);
+  assert.ok(calculateGemScore(stone, meshData) > HIGH_GEM_SCORE);
+});
+
+test('the metal parts of Solitaire/386741F score as bands', async () => {
+  const meshData = await loadModel('Solitaire/386741F.glb');
+  const shank = meshData.ring?.shank;
+  assert.ok(shank);
+  const head = meshData.meshes.find((mesh) => mesh !== shank && mesh.name !== '3Design_CAD_STL__part0');
+  assert.ok(head);
+
+  for (const metal of [shank, head]) {
+    const features = getGeometryFeatures(metal);
+    assert.ok(features.vertexFaceRatio < 1.2);
+    assert.ok(features.convexity < 0.6);
+    assert.ok(calculateGemScore(metal, meshData) < LOW_GEM_SCORE);
+  }
+  // The head is in a different metal from the shank
+  assert.ok(isAccentBandNode(head, meshData));
+  assert.ok(!isAccentBandNode(shank, meshData));
+});
+
+test('all three stones of ThreeStone/395674F score as gems', async () => {
+  const meshData = await loadModel('ThreeStone/395674F.glb');
+  const gems = meshData.meshes.filter((mesh) => calculateGemScore(mesh, meshData) > HIGH_GEM_SCORE);
+
+  assert.equal(gems.length, 3);
+  assert.ok(!gems.includes(meshData.ring!.shank));
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_ENGRAVING_LENGTH } from '../lib/engraving';
+import { MAX_NOTES_LENGTH } from '../lib/leads';
+import { MAX_SNAPSHOT_BYTES, parseSnapshot } from '../lib/leadSink';
+import { MAX_STACKED_RINGS } from '../lib/ringStack';
+import { getRingSize } from '../lib/ringSizes';
+import { parseViewerConfig, serializeViewerConfig } from '../lib/viewerConfig';
+import { config } from '../pages/api/v1/leads';
+
+const toDataUrl = (bytes: number) => `data:image/jpeg;base64,${Buffer.alloc(bytes, 0xff).toString('base64')}`;
+
+test('snapshots up to MAX_SNAPSHOT_BYTES are accepted', () => {
+  assert.equal(parseSnapshot(toDataUrl(MAX_SNAPSHOT_BYTES))?.data.length, MAX_SNAPSHOT_BYTES);
+  assert.equal(parseSnapshot(toDataUrl(MAX_SNAPSHOT_BYTES + 1)), null);
+});
+
+test('the lead endpoint takes a body with the largest snapshot', () => {
+  const { sizeLimit } = config.api.bodyParser;
+  assert.match(sizeLimit, /^\d+(\.\d+)?mb$/);
+  // Next reads the limit with the bytes package, where a megabyte is 1024 * 1024 bytes
+  const limit = Math.floor(parseFloat(sizeLimit) * 1024 * 1024);
+
+  // Every option set, with the longest names and an engraving that percent-encodes to 9 bytes a character
+  const viewerConfig = serializeViewerConfig({
+    metal: 'White Gold',
+    accentMetal: 'White Gold',
+    finish: 'Hammered',
+    accentFinish: 'Hammered',
+    gems: {
+      center: { type: 'Yellow Diamond', color: '#ffffff' },
+      side: { type: 'Yellow Diamond', color: '#ffffff' },
+      accent: { type: 'Yellow Diamond', color: '#ffffff' },
+    },
+    ringSize: getRingSize('UK', 'Y½'),
+    engraving: { text: '€'.repeat(MAX_ENGRAVING_LENGTH), font: 'Classic' },
+    stack: Array.from({ length: MAX_STACKED_RINGS }, () => ({ model: 'Solitaire/387334', metal: 'White Gold' })),
+    camera: [-1000.25, -1000.25, -1000.25],
+  });
+  // Nothing in the config is dropped on parsing, so the server sees all of it
+  assert.equal(serializeViewerConfig(parseViewerConfig(new URLSearchParams(viewerConfig))), viewerConfig);
+
+  const body = JSON.stringify({
+    category: 'Solitaire',
+    slug: '387334',
+    config: viewerConfig,
+    contact: {
+      name: 'n'.repeat(200),
+      email: 'e'.repeat(200),
+      phone: 'p'.repeat(200),
+      notes: 'x'.repeat(MAX_NOTES_LENGTH),
+    },
+    snapshot: toDataUrl(MAX_SNAPSHOT_BYTES),
+  });
+  assert.ok(Buffer.byteLength(body) < limit);
+});
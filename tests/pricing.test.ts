@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RingModel } from '../lib/catalog';
+import type { ModelMetadata } from '../lib/modelMetadata';
+import { DEFAULT_METALS } from '../lib/metals';
+import { DEFAULT_PRICING, estimatePrice, parsePricingConfig } from '../lib/pricing';
+
+function createModel(slug: string, metadata: ModelMetadata): RingModel {
+  return {
+    slug,
+    category: 'Solitaire',
+    fileName: `${slug}.glb`,
+    format: 'glb',
+    assetKey: `Solitaire/${slug}.glb`,
+    assetUrl: `/3d/Solitaire/${slug}.glb`,
+    size: 0,
+    modifiedAt: 0,
+    imageUrl: null,
+    gifUrl: null,
+    metadata,
+    classificationOverrides: null,
+  };
+}
+
+test('a stack of rings in one currency is priced in it', () => {
+  const model = createModel('387334', { basePrice: 2000, priceRange: { min: 2000, max: 3000, currency: 'EUR' } });
+  const band = createModel('390548', { priceRange: { min: 500, max: 800, currency: 'EUR' } });
+  const estimate = estimatePrice(model, {}, DEFAULT_METALS, DEFAULT_PRICING, [{ model: band }]);
+
+  assert.equal(estimate?.currency, 'EUR');
+  assert.equal(estimate?.lines.length, 2);
+});
+
+test('a stack of rings in different currencies has no estimate', () => {
+  const model = createModel('387334', { basePrice: 2000, priceRange: { min: 2000, max: 3000, currency: 'EUR' } });
+  const band = createModel('390548', { basePrice: 500 });
+
+  assert.equal(estimatePrice(model, {}, DEFAULT_METALS, DEFAULT_PRICING, [{ model: band }]), null);
+});
+
+test('the pricing config currency is validated', () => {
+  assert.equal(parsePricingConfig(DEFAULT_PRICING, { currency: ' gbp ' }).currency, 'GBP');
+  assert.equal(parsePricingConfig(DEFAULT_PRICING, { currency: 'pounds' }).currency, 'USD');
+  assert.equal(parsePricingConfig({ ...DEFAULT_PRICING, currency: 'EUR' }, { currency: 42 }).currency, 'EUR');
+});
+
+test('the accent band finish is priced when the band is in the main metal', () => {
+  const model = createModel('386741F', { basePrice: 2000 });
+  const config = { metal: 'Yellow Gold', accentMetal: 'Yellow Gold', finish: 'Satin', accentFinish: 'Hammered' };
+  const labels = estimatePrice(model, config, DEFAULT_METALS, DEFAULT_PRICING)?.lines.map((line) => line.label);
+
+  assert.ok(labels?.includes('Satin finish'));
+  assert.ok(labels?.includes('Hammered finish'));
+  assert.ok(!labels?.some((label) => label.startsWith('Two-tone')));
+});
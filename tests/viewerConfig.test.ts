@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRingSize } from '../lib/ringSizes';
+import { parseViewerConfig, serializeViewerConfig, type ViewerConfig } from '../lib/viewerConfig';
+
+const parse = (query: string) => parseViewerConfig(new URLSearchParams(query));
+
+test('a malformed camera position is left out', () => {
+  for (const cam of ['22,31', '22,31,23,4', '22,abc,23', '0,0,0', '']) {
+    assert.equal(parse(`cam=${cam}`).camera, undefined, cam);
+  }
+  assert.deepEqual(parse('cam=22,-31.5,23').camera, [22, -31.5, 23]);
+});
+
+test('an unknown finish is dropped but an unknown metal is left to the viewer', () => {
+  const config = parse('metal=Unobtainium&finish=Sandblasted&accentFinish=Glossy');
+  assert.equal(config.finish, undefined);
+  assert.equal(config.accentFinish, undefined);
+  // Only the viewer knows which metals a model offers
+  assert.equal(config.metal, 'Unobtainium');
+});
+
+test('a ring size outside its system is left out', () => {
+  for (const size of ['US:21', 'US:-1', 'UK:Z+1', 'EU:10', 'XX:7', 'US:', '7']) {
+    assert.equal(parse(`size=${encodeURIComponent(size)}`).ringSize, undefined, size);
+  }
+  assert.deepEqual(parse('size=US:7').ringSize, getRingSize('US', '7'));
+});
+
+test('a stone color that is not a hex color is dropped but the stone kept', () => {
+  for (const color of ['red', '#12345', '#1234567', '#ggg000', '123456']) {
+    const config = parse(`stone=Sapphire&stoneColor=${encodeURIComponent(color)}`);
+    assert.deepEqual(config.gems, { center: { type: 'Sapphire' } }, color);
+  }
+  assert.deepEqual(parse('stone=Sapphire&stoneColor=%2300AAFF').gems, {
+    center: { type: 'Sapphire', color: '#00aaff' }
+  });
+});
+
+test('a serialized configuration parses back unchanged', () => {
+  const config: ViewerConfig = {
+    metal: 'Rose Gold',
+    accentMetal: 'White Gold',
+    finish: 'Brushed',
+    accentFinish: 'Hammered',
+    gems: {
+      center: { type: 'Sapphire', color: '#1f3a93' },
+      side: { type: 'Diamond' },
+      accent: { type: 'Ruby', color: '#9b111e' }
+    },
+    ringSize: getRingSize('UK', 'N½'),
+    engraving: { text: ' Forever & always ', font: 'Script' },
+    stack: [{ model: 'Solitaire/386741F', metal: 'Platinum' }, { model: 'Band/395674F' }],
+    camera: [22, -31.5, 23],
+    hiddenNodes: ['PART0001', 'PART 2']
+  };
+  assert.deepEqual(parseViewerConfig(new URLSearchParams(serializeViewerConfig(config))), config);
+});